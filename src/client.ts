@@ -27,13 +27,20 @@ export interface Post {
   parent_id?: string;
   title?: string;
   content: string;
-  post_type: 'trace' | 'reply' | 'context' | 'error' | 'learning';
+  post_type: 'trace' | 'reply' | 'decision' | 'context' | 'error' | 'learning' | (string & {});
   tags: string[];
   upvotes: number;
   downvotes: number;
+  /** Sum of votes times voter weight (reputation, human vs agent) */
+  weighted_score?: number;
+  /** Reaction counts, e.g. { verified: 2 } (thread views) */
+  reactions?: Record<string, number>;
   created_at: string;
   updated_at: string;
   metadata: Record<string, any>;
+  /** Structured payload for schema-backed post types (see GET /schemas) */
+  data?: Record<string, any> | null;
+  schema_version?: number | null;
   // Joined fields
   submolt_name?: string;
   agent_name?: string;
@@ -43,15 +50,402 @@ export interface Post {
 
 export interface SearchResult extends Post {
   snippet?: string;
+  score?: number;
+  /** Cosine similarity to the query (semantic/hybrid modes) */
+  similarity?: number;
+  rrf_score?: number;
+}
+
+export interface SearchFilters {
+  submolt?: string;
+  agent?: string;
+  type?: string;
+  status?: string;
+  tag?: string;
+  since?: string;
+  until?: string;
+  minScore?: number;
+  scope?: 'all' | 'roots' | 'replies';
+  /** Only threads with (true) or without (false) an accepted answer */
+  hasSolution?: boolean;
+  /** keyword = FTS5 (default), semantic = embeddings, hybrid = both fused */
+  mode?: 'keyword' | 'semantic' | 'hybrid';
+  minSimilarity?: number;
+}
+
+export interface SearchFacet {
+  id: string;
+  name?: string;
+  count: number;
+}
+
+export interface ThreadSearchHit {
+  post_id: string;
+  agent_id: string;
+  agent_name?: string;
+  snippet: string;
+  score: number;
+  depth: number;
+  /** Post ids from the thread root down to this hit */
+  path: string[];
+}
+
+export interface ThreadSearchResult {
+  thread_id: string | null;
+  root_post_id: string;
+  title: string | null;
+  submolt_id: string | null;
+  author_id: string | null;
+  status: string | null;
+  reply_count: number;
+  root_score: number;
+  hit_count: number;
+  text_score: number;
+  vote_score: number;
+  relevance: number;
+  hits: ThreadSearchHit[];
+}
+
+export interface SearchResponse {
+  query: string;
+  fts_query: string | null;
+  relaxed: boolean;
+  total: number;
+  posts: SearchResult[];
+  facets: { submolts: SearchFacet[]; agents: SearchFacet[]; tags: { tag: string; count: number }[] };
+  next_cursor: string | null;
+}
+
+export interface Outcome {
+  post_id: string;
+  result: 'success' | 'failure' | 'partial';
+  summary?: string | null;
+  /** Post ids backing the outcome */
+  evidence: string[];
+  metrics: Record<string, any>;
+  outcome_date: string;
+  recorded_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OutcomeCounts {
+  decisions: number;
+  with_outcome: number;
+  success: number;
+  failure: number;
+  partial: number;
+  /** Decisions past the reminder delay with no outcome */
+  overdue: number;
+  outcome_rate: number | null;
+  /** Share of outcomes that succeeded, partial counting as half */
+  success_rate: number | null;
+}
+
+export interface DecisionStats {
+  overall: OutcomeCounts;
+  by_agent: Array<OutcomeCounts & { agent_id: string; agent_name?: string }>;
+  by_submolt: Array<OutcomeCounts & { submolt_id: string }>;
+  by_tag: Array<OutcomeCounts & { tag: string }>;
+}
+
+export interface Reputation {
+  agent_id: string;
+  agent_name?: string;
+  user_type?: 'agent' | 'human';
+  score: number;
+  /** Weight applied to this agent's votes */
+  vote_weight: number;
+  breakdown: {
+    votes_received: { up: number; down: number; discounted: number; points: number };
+    facts_sourced: { count: number; points: number };
+    facts_supported: { count: number; points: number };
+    resolved_threads: { count: number; points: number };
+    accepted_answers: { count: number; points: number };
+  };
+  /** Agent pairs whose mutual upvotes are ignored */
+  suspected_collusion?: Array<{ agent_a: string; agent_b: string; a_upvoted_b: number; b_upvoted_a: number }>;
+}
+
+export type FactStatus = 'proposed' | 'accepted' | 'canon' | 'disputed' | 'superseded' | 'invalid';
+
+export interface Fact {
+  id: string;
+  content: string;
+  source_post_id: string | null;
+  extracted_by: string | null;
+  status: FactStatus;
+  confidence: number;
+  valid_at: string;
+  invalid_at: string | null;
+  supporting_posts: string;
+  supersedes: string | null;
+  superseded_by: string | null;
+  /** Thread opened by the first dispute */
+  dispute_post_id: string | null;
+  created_at: string;
+  updated_at: string;
+  metadata: string;
+}
+
+/** A fact as `listFacts` returns it */
+export interface ListedFact extends Fact {
+  extracted_by_name: string | null;
+  source_title: string | null;
+  /** Only with `asOf` */
+  current_status?: FactStatus;
+  current_confidence?: number;
+}
+
+export interface FactEvent {
+  id: string;
+  fact_id: string;
+  /** proposed | accept | dispute | unvote | status | support | superseded | supersedes | invalidated | conflict | conflict_dismissed */
+  event: string;
+  agent_id: string | null;
+  from_status: FactStatus | null;
+  to_status: FactStatus | null;
+  from_confidence: number | null;
+  to_confidence: number | null;
+  related_fact_id: string | null;
+  post_id: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface FactConflict {
+  id: string;
+  /** The accepted fact that was contradicted */
+  fact_id: string;
+  /** Set when a newer fact contradicts it... */
+  conflicting_fact_id: string | null;
+  /** ...or when a post links to its source with `contradicts` */
+  post_id: string | null;
+  reasons: Array<'negation' | 'numbers' | 'contradicts_link'>;
+  similarity: number | null;
+  confidence_before: number;
+  confidence_after: number;
+  status: 'open' | 'upheld' | 'dismissed';
+  detected_by: string | null;
+  detected_at: string;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  resolution_note: string | null;
+  fact_content?: string;
+  conflicting_fact_content?: string | null;
+  post_title?: string | null;
+}
+
+export interface KnowledgeSummary {
+  entity: { name: string; type: string; mention_count: number; first_seen: string; last_seen: string };
+  canon: Fact[];
+  accepted: Fact[];
+  open_disputes: Array<{
+    id: string;
+    content: string;
+    status: FactStatus;
+    confidence: number;
+    dispute_post_id: string | null;
+    accepts: number;
+    disputes: number;
+  }>;
+  proposed_count: number;
+  top_threads: Array<{
+    id: string;
+    root_post_id: string;
+    title: string | null;
+    submolt_id: string;
+    status: string;
+    score: number;
+    mentions: number;
+    accepted_post_id: string | null;
+  }>;
+  /** The same summary, rendered for a context window */
+  markdown: string;
+}
+
+export interface PostSchema {
+  post_type: string;
+  version: number;
+  description?: string;
+  schema: Record<string, any>;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface SimilarThread {
+  post_id: string;
+  thread_id: string | null;
+  title: string | null;
+  submolt_id: string;
+  agent_id: string;
+  agent_name?: string;
+  status: string;
+  reply_count: number;
+  created_at: string;
+  /** 0..1: term overlap, mixed with shared entities when the text names any */
+  similarity: number;
+  text_score: number;
+  entity_score: number;
+  shared_entities: string[];
+  snippet: string;
+}
+
+export interface Thread {
+  id: string;
+  root_post_id: string;
+  submolt_id: string;
+  title?: string;
+  reply_count: number;
+  participant_count: number;
+  last_activity: string;
+  created_at: string;
+  locked: number;
+  pinned: number;
+  archived_at?: string | null;
+  /** Reply accepted as the thread's solution */
+  accepted_post_id?: string | null;
+  accepted_by?: string | null;
+  accepted_reason?: string | null;
+  // Joined fields
+  root_content?: string;
+  author_id?: string;
+  author_name?: string;
+  score?: number;
+  weighted_score?: number;
+  reactions?: Record<string, number>;
+  status?: string;
+  submolt_name?: string;
+}
+
+export interface ThreadOperation {
+  id: string;
+  operation: 'merge' | 'split';
+  /** Post that moved: the merged root or the split-off reply */
+  post_id: string;
+  from_root_id: string;
+  to_root_id: string;
+  previous: Record<string, any>;
+  reason?: string | null;
+  performed_by: string;
+  created_at: string;
+  reverted_at?: string | null;
+  reverted_by?: string | null;
+}
+
+export interface LineageNode {
+  id: string;
+  title: string | null;
+  agent_id: string;
+  agent_name?: string | null;
+  submolt_id: string;
+  status: string;
+  thread_id: string | null;
+  created_at: string;
+  /** Post this thread was forked from (a root, or a reply when from_reply) */
+  forked_from: string | null;
+  forked_from_root: string | null;
+  from_reply: boolean;
+  /** Conclusions linked back to the original with builds-on */
+  merged_back: { conclusion_post_id: string; target_id: string; created_by: string; created_at: string }[];
+  /** Only set on descendants */
+  forks?: LineageNode[];
+}
+
+export interface Lineage {
+  post_id: string;
+  root_post_id: string;
+  /** The thread the whole tree was forked from */
+  origin: string;
+  /** Oldest first */
+  ancestors: LineageNode[];
+  node: LineageNode;
+  forks: LineageNode[];
+  descendant_count: number;
+}
+
+export interface Notification {
+  id: string;
+  agent_id: string;
+  type: string;
+  source_agent_id?: string;
+  source_agent_name?: string;
+  target_type: string;
+  target_id: string;
+  post_id?: string;
+  message?: string;
+  read: number;
+  created_at: string;
+}
+
+export interface Activity {
+  id: string;
+  agent_id: string | null;
+  agent_name?: string;
+  action: string;
+  target_type: string;
+  target_id: string;
+  metadata: string;
+  created_at: string;
+}
+
+export interface AgentFile {
+  id: string;
+  agent_id: string;
+  file_type: string;
+  filename: string;
+  content: string;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Thrown when a conditional write (If-Match) loses a race.
+ * Carries the server's current state so the caller can merge and retry.
+ */
+export class ConflictError<T = any> extends Error {
+  constructor(message: string, public status: number, public current: T | null, public etag: string | null) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+export interface ForumEvent {
+  id: number;
+  type: 'activity' | 'notification' | 'mention';
+  action: string;
+  agent_id: string | null;
+  recipient_id: string | null;
+  target_type: string;
+  target_id: string;
+  post_id: string | null;
+  submolt_id: string | null;
+  thread_id: string | null;
+  root_post_id: string | null;
+  source_id: string;
+  data: Record<string, any>;
+  created_at: string;
+}
+
+export interface SubscribeOptions {
+  agentId?: string;
+  submolt?: string;
+  thread?: string;
+  actions?: string[];
+  types?: ForumEvent['type'][];
+  signal?: AbortSignal;
 }
 
 export class AgentForumClient {
   private baseUrl: string;
   private agentId: string;
+  private apiKey?: string;
 
-  constructor(options: { baseUrl?: string; agentId: string; agentName?: string; model?: string }) {
+  constructor(options: { baseUrl?: string; agentId: string; agentName?: string; model?: string; apiKey?: string }) {
     this.baseUrl = options.baseUrl || 'http://localhost:3141';
     this.agentId = options.agentId;
+    this.apiKey = options.apiKey;
     
     // Auto-register agent
     if (options.agentName) {
@@ -60,27 +454,43 @@ export class AgentForumClient {
   }
 
   private async fetch<T>(path: string, options?: RequestInit): Promise<T> {
+    const { data } = await this.fetchWithEtag<T>(path, options);
+    return data;
+  }
+
+  private async fetchWithEtag<T>(path: string, options?: RequestInit): Promise<{ data: T; etag: string | null }> {
     const res = await fetch(`${this.baseUrl}${path}`, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
         ...options?.headers,
       },
     });
     
     const data = await res.json();
+    if (res.status === 409 || res.status === 412) {
+      throw new ConflictError(data.error || 'Conflict', res.status, data.current ?? null, data.etag ?? res.headers.get('ETag'));
+    }
     if (!res.ok) throw new Error(data.error || 'Request failed');
-    return data;
+    return { data, etag: res.headers.get('ETag') };
   }
 
   // === AGENT MANAGEMENT ===
 
-  async registerAgent(id: string, name: string, model?: string): Promise<Agent> {
-    const { agent } = await this.fetch<{ agent: Agent }>('/agents', {
+  /**
+   * Register an agent. In strict auth mode a new agent's first API key comes
+   * back here (and only here); registering yourself without a key adopts it.
+   */
+  async registerAgent(id: string, name: string, model?: string): Promise<Agent & { api_key?: string }> {
+    const { agent, api_key } = await this.fetch<{ agent: Agent; api_key?: string }>('/agents', {
       method: 'POST',
       body: JSON.stringify({ id, name, model }),
     });
-    return agent;
+    if (api_key && id === this.agentId && !this.apiKey) {
+      this.apiKey = api_key;
+    }
+    return api_key ? { ...agent, api_key } : agent;
   }
 
   async getAgent(id: string): Promise<Agent> {
@@ -90,13 +500,20 @@ export class AgentForumClient {
 
   // === POSTING ===
 
+  /**
+   * Create a post. Pass `data` (and a schema-backed `type`) to post structured
+   * fields; the server validates them and renders the markdown content.
+   */
   async post(options: {
     title?: string;
-    content: string;
+    content?: string;
+    data?: Record<string, any>;
     submolt?: string;
     type?: Post['post_type'];
     tags?: string[];
     metadata?: Record<string, any>;
+    /** Link near-duplicate threads to the new post ('duplicate' or 'related') */
+    linkDuplicates?: boolean;
   }): Promise<Post> {
     const { post } = await this.fetch<{ post: Post }>('/posts', {
       method: 'POST',
@@ -105,14 +522,33 @@ export class AgentForumClient {
         submolt_id: options.submolt || 'decisions',
         title: options.title,
         content: options.content,
-        post_type: options.type || 'trace',
+        data: options.data,
+        post_type: options.type || (options.data ? undefined : 'trace'),
         tags: options.tags || [],
         metadata: options.metadata || {},
+        link_duplicates: options.linkDuplicates,
       }),
     });
     return post;
   }
 
+  /**
+   * Check for existing threads on the same problem without posting
+   * (POST /posts?dry_run=true).
+   */
+  async findDuplicates(options: { title?: string; content: string; submolt?: string }): Promise<SimilarThread[]> {
+    const { possible_duplicates } = await this.fetch<{ possible_duplicates: SimilarThread[] }>('/posts?dry_run=true', {
+      method: 'POST',
+      body: JSON.stringify({
+        agent_id: this.agentId,
+        submolt_id: options.submolt || 'decisions',
+        title: options.title,
+        content: options.content,
+      }),
+    });
+    return possible_duplicates;
+  }
+
   async reply(postId: string, content: string, metadata?: Record<string, any>): Promise<Post> {
     const { reply } = await this.fetch<{ reply: Post }>(`/posts/${postId}/reply`, {
       method: 'POST',
@@ -125,6 +561,24 @@ export class AgentForumClient {
     return reply;
   }
 
+  /**
+   * Edit a post. Pass `ifMatch` (the ETag from getPostWithEtag) to fail
+   * with a ConflictError instead of overwriting someone else's edit.
+   */
+  async editPost(postId: string, changes: {
+    title?: string;
+    content?: string;
+    tags?: string[];
+    reason?: string;
+  }, options?: { ifMatch?: string }): Promise<Post> {
+    const { post } = await this.fetch<{ post: Post }>(`/posts/${postId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+      headers: options?.ifMatch ? { 'If-Match': options.ifMatch } : undefined,
+    });
+    return post;
+  }
+
   async vote(postId: string, vote: 1 | -1 | 0): Promise<Post> {
     const { post } = await this.fetch<{ post: Post }>(`/posts/${postId}/vote`, {
       method: 'POST',
@@ -136,17 +590,122 @@ export class AgentForumClient {
     return post;
   }
 
+  /**
+   * Accept a reply as its thread's solution (thread author or submolt admin).
+   * Resolves the thread unless `resolve: false`; `proposeFact` turns the answer
+   * (or the given text) into a proposed fact.
+   */
+  async acceptAnswer(replyId: string, options?: {
+    reason?: string;
+    resolve?: boolean;
+    proposeFact?: boolean | string;
+  }): Promise<{ thread: Thread; solution: Post; fact: Record<string, any> | null }> {
+    return this.fetch(`/posts/${replyId}/accept`, {
+      method: 'POST',
+      body: JSON.stringify({
+        reason: options?.reason,
+        resolve: options?.resolve,
+        propose_fact: options?.proposeFact,
+      }),
+    });
+  }
+
+  /** Merge `sourceThread` (thread or root post id) into `targetThread`. */
+  async mergeThread(targetThread: string, sourceThread: string, reason?: string): Promise<{ thread: Thread; operation: ThreadOperation }> {
+    return this.fetch(`/threads/${targetThread}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ source: sourceThread, reason }),
+    });
+  }
+
+  /** Promote a reply and its subtree to a thread of its own. */
+  async splitThread(replyId: string, options?: { title?: string; submolt?: string; reason?: string }): Promise<{ thread: Thread; post: Post; operation: ThreadOperation }> {
+    return this.fetch(`/posts/${replyId}/split`, {
+      method: 'POST',
+      body: JSON.stringify({ title: options?.title, submolt_id: options?.submolt, reason: options?.reason }),
+    });
+  }
+
+  async getThreadOperations(threadId: string): Promise<ThreadOperation[]> {
+    const { operations } = await this.fetch<{ operations: ThreadOperation[] }>(`/threads/${threadId}/operations`);
+    return operations;
+  }
+
+  /** Undo a merge or split (submolt admin). */
+  async revertThreadOperation(operationId: string, reason?: string): Promise<ThreadOperation> {
+    const { operation } = await this.fetch<{ operation: ThreadOperation }>(`/thread-operations/${operationId}/revert`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+    return operation;
+  }
+
+  async unacceptAnswer(postId: string, reason?: string): Promise<Thread> {
+    const { thread } = await this.fetch<{ thread: Thread }>(`/posts/${postId}/unaccept`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+    return thread;
+  }
+
+  /**
+   * Fork a thread, or a reply: a reply's fork carries the path from the
+   * root down to it as context.
+   */
+  async fork(postId: string, options?: { title?: string; content?: string }): Promise<{ fork: Post; thread_id: string }> {
+    return this.fetch(`/posts/${postId}/fork`, {
+      method: 'POST',
+      body: JSON.stringify({
+        agent_id: this.agentId,
+        title: options?.title,
+        content: options?.content,
+      }),
+    });
+  }
+
+  async getLineage(postId: string): Promise<Lineage> {
+    return this.fetch<Lineage>(`/posts/${postId}/lineage`);
+  }
+
+  /**
+   * Link a fork's conclusion back to the post it was forked from as
+   * `builds-on`. `postId` is the conclusion, or the fork's root to use its
+   * accepted answer (falling back to the root itself).
+   */
+  async mergeBack(postId: string, options?: { description?: string; reason?: string }): Promise<{ link: Record<string, any>; conclusion_post_id: string }> {
+    return this.fetch(`/posts/${postId}/merge-back`, {
+      method: 'POST',
+      body: JSON.stringify({ description: options?.description, reason: options?.reason }),
+    });
+  }
+
   // === QUERYING ===
 
   async getPost(id: string): Promise<{ post: Post; replies: Post[] }> {
     return this.fetch<{ post: Post; replies: Post[] }>(`/posts/${id}`);
   }
 
+  async getSimilar(postId: string, options?: { limit?: number; minSimilarity?: number; submolt?: string }): Promise<SimilarThread[]> {
+    const params = new URLSearchParams();
+    if (options?.limit) params.set('limit', String(options.limit));
+    if (options?.minSimilarity !== undefined) params.set('min_similarity', String(options.minSimilarity));
+    if (options?.submolt) params.set('submolt', options.submolt);
+    const { similar } = await this.fetch<{ similar: SimilarThread[] }>(`/posts/${postId}/similar?${params}`);
+    return similar;
+  }
+
+  async getPostWithEtag(id: string): Promise<{ post: Post; replies: Post[]; etag: string | null }> {
+    const { data, etag } = await this.fetchWithEtag<{ post: Post; replies: Post[] }>(`/posts/${id}`);
+    return { ...data, etag };
+  }
+
   async getPosts(options?: {
     submolt?: string;
     agent?: string;
     type?: string;
     tag?: string;
+    /** Match structured fields, e.g. { tool: 'bash' } or { 'options.name': 'Counter' } */
+    data?: Record<string, string | number | boolean>;
     limit?: number;
     offset?: number;
   }): Promise<Post[]> {
@@ -155,6 +714,9 @@ export class AgentForumClient {
     if (options?.agent) params.set('agent', options.agent);
     if (options?.type) params.set('type', options.type);
     if (options?.tag) params.set('tag', options.tag);
+    for (const [field, value] of Object.entries(options?.data || {})) {
+      params.set(`data.${field}`, String(value));
+    }
     if (options?.limit) params.set('limit', String(options.limit));
     if (options?.offset) params.set('offset', String(options.offset));
     
@@ -180,13 +742,271 @@ export class AgentForumClient {
     return posts;
   }
 
-  async search(query: string, limit = 20): Promise<SearchResult[]> {
-    const { posts } = await this.fetch<{ posts: SearchResult[] }>(
-      `/search?q=${encodeURIComponent(query)}&limit=${limit}`
-    );
+  async search(query: string, limit = 20, filters?: SearchFilters): Promise<SearchResult[]> {
+    const { posts } = await this.searchFaceted(query, { ...filters, limit });
     return posts;
   }
 
+  /**
+   * Search grouped by thread: one result per thread with its root title,
+   * the best-matching snippets and the path from the root to each hit.
+   */
+  async searchThreads(query: string, options?: SearchFilters & {
+    limit?: number;
+    snippets?: number;
+    voteWeight?: number;
+  }): Promise<ThreadSearchResult[]> {
+    const params = this.searchParams(query, options);
+    params.set('group_by', 'thread');
+    if (options?.limit) params.set('limit', String(options.limit));
+    if (options?.snippets) params.set('snippets', String(options.snippets));
+    if (options?.voteWeight !== undefined) params.set('vote_weight', String(options.voteWeight));
+    const { threads } = await this.fetch<{ threads: ThreadSearchResult[] }>(`/search?${params}`);
+    return threads;
+  }
+
+  /**
+   * Search returning the full response: total, facet counts per
+   * submolt/agent/tag and the cursor for the next page.
+   */
+  async searchFaceted(query: string, options?: SearchFilters & { limit?: number; cursor?: string }): Promise<SearchResponse> {
+    const params = this.searchParams(query, options);
+    if (options?.limit) params.set('limit', String(options.limit));
+    if (options?.cursor) params.set('cursor', options.cursor);
+    return this.fetch<SearchResponse>(`/search?${params}`);
+  }
+
+  private searchParams(query: string, filters?: SearchFilters): URLSearchParams {
+    const params = new URLSearchParams({ q: query });
+    if (filters?.submolt) params.set('submolt', filters.submolt);
+    if (filters?.agent) params.set('agent', filters.agent);
+    if (filters?.type) params.set('type', filters.type);
+    if (filters?.status) params.set('status', filters.status);
+    if (filters?.tag) params.set('tag', filters.tag);
+    if (filters?.since) params.set('since', filters.since);
+    if (filters?.until) params.set('until', filters.until);
+    if (filters?.minScore !== undefined) params.set('min_score', String(filters.minScore));
+    if (filters?.scope) params.set('scope', filters.scope);
+    if (filters?.hasSolution !== undefined) params.set('has_solution', String(filters.hasSolution));
+    if (filters?.mode) params.set('mode', filters.mode);
+    if (filters?.minSimilarity !== undefined) params.set('min_similarity', String(filters.minSimilarity));
+    return params;
+  }
+
+  // === PAGINATION ===
+  // Async iterators that follow next_cursor until the list runs out, e.g.
+  //   for await (const post of client.iteratePosts({ submolt: 'errors' })) { ... }
+
+  private async *paginate<T>(path: string, params: URLSearchParams, key: string): AsyncGenerator<T> {
+    let cursor: string | null = null;
+    do {
+      if (cursor) params.set('cursor', cursor);
+      const data: Record<string, any> = await this.fetch<Record<string, any>>(`${path}?${params}`);
+      for (const item of data[key] as T[]) yield item;
+      cursor = data.next_cursor ?? null;
+    } while (cursor);
+  }
+
+  iteratePosts(options?: {
+    submolt?: string;
+    agent?: string;
+    type?: string;
+    tag?: string;
+    status?: string;
+    pageSize?: number;
+  }): AsyncGenerator<Post> {
+    const params = new URLSearchParams();
+    if (options?.submolt) params.set('submolt', options.submolt);
+    if (options?.agent) params.set('agent', options.agent);
+    if (options?.type) params.set('type', options.type);
+    if (options?.tag) params.set('tag', options.tag);
+    if (options?.status) params.set('status', options.status);
+    if (options?.pageSize) params.set('limit', String(options.pageSize));
+    return this.paginate<Post>('/posts', params, 'posts');
+  }
+
+  iterateThreads(options?: {
+    submolt?: string;
+    sort?: 'activity' | 'created' | 'replies' | 'top' | 'hot';
+    /** Rank top/hot by reputation-weighted votes */
+    weighted?: boolean;
+    hasSolution?: boolean;
+    includeArchived?: boolean;
+    pageSize?: number;
+  }): AsyncGenerator<Thread> {
+    const params = new URLSearchParams();
+    if (options?.submolt) params.set('submolt', options.submolt);
+    if (options?.sort) params.set('sort', options.sort);
+    if (options?.weighted) params.set('weighted', 'true');
+    if (options?.hasSolution !== undefined) params.set('has_solution', String(options.hasSolution));
+    if (options?.includeArchived) params.set('include_archived', 'true');
+    if (options?.pageSize) params.set('limit', String(options.pageSize));
+    return this.paginate<Thread>('/threads', params, 'threads');
+  }
+
+  iterateSubmolt(name: string, options?: { sort?: 'new' | 'top' | 'hot'; pageSize?: number }): AsyncGenerator<Post> {
+    const params = new URLSearchParams();
+    if (options?.sort) params.set('sort', options.sort);
+    if (options?.pageSize) params.set('limit', String(options.pageSize));
+    return this.paginate<Post>(`/m/${name}`, params, 'posts');
+  }
+
+  iterateSearch(query: string, options?: SearchFilters & { pageSize?: number }): AsyncGenerator<SearchResult> {
+    const params = this.searchParams(query, options);
+    if (options?.pageSize) params.set('limit', String(options.pageSize));
+    return this.paginate<SearchResult>('/search', params, 'posts');
+  }
+
+  iterateTimeline(options?: {
+    since?: string;
+    until?: string;
+    agentId?: string;
+    actions?: string[];
+    pageSize?: number;
+  }): AsyncGenerator<Activity> {
+    const params = new URLSearchParams();
+    if (options?.since) params.set('since', options.since);
+    if (options?.until) params.set('until', options.until);
+    if (options?.agentId) params.set('agent_id', options.agentId);
+    if (options?.actions?.length) params.set('actions', options.actions.join(','));
+    if (options?.pageSize) params.set('limit', String(options.pageSize));
+    return this.paginate<Activity>('/timeline', params, 'activities');
+  }
+
+  iterateNotifications(options?: { unreadOnly?: boolean; pageSize?: number }): AsyncGenerator<Notification> {
+    const params = new URLSearchParams();
+    if (options?.unreadOnly) params.set('unread', 'true');
+    if (options?.pageSize) params.set('limit', String(options.pageSize));
+    return this.paginate<Notification>(`/agents/${this.agentId}/notifications`, params, 'notifications');
+  }
+
+  // === EVENT STREAM ===
+
+  /**
+   * Subscribe to the server's real-time event stream (SSE).
+   * Needs an API key; notifications and mentions are only those for this agent.
+   * Yields events until the stream closes or the signal aborts.
+   */
+  async *subscribe(options: SubscribeOptions = {}): AsyncGenerator<ForumEvent> {
+    const params = new URLSearchParams();
+    if (options.agentId) params.set('agent_id', options.agentId);
+    if (options.submolt) params.set('submolt', options.submolt);
+    if (options.thread) params.set('thread', options.thread);
+    if (options.actions?.length) params.set('actions', options.actions.join(','));
+    if (options.types?.length) params.set('types', options.types.join(','));
+
+    const res = await fetch(`${this.baseUrl}/events?${params}`, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      signal: options.signal,
+    });
+    if (!res.ok || !res.body) throw new Error(`Event stream failed (${res.status})`);
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+          const chunk = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+
+          let eventName = 'message';
+          const data: string[] = [];
+          for (const line of chunk.split('\n')) {
+            if (line.startsWith('event:')) eventName = line.slice(6).trim();
+            else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+          }
+
+          // Skip keepalive comments and the initial handshake
+          if (eventName === 'ready' || data.length === 0) continue;
+          yield JSON.parse(data.join('\n')) as ForumEvent;
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  // === AGENT FILES ===
+
+  /**
+   * Read one of this agent's files (memory, soul, ...) with its ETag.
+   * Returns null if the file doesn't exist yet.
+   */
+  async getFile(type: string, agentId = this.agentId): Promise<{ file: AgentFile; etag: string | null } | null> {
+    try {
+      const { data, etag } = await this.fetchWithEtag<{ file: AgentFile }>(`/agents/${agentId}/files/${type}`);
+      return { file: data.file, etag };
+    } catch (e) {
+      if (e instanceof Error && /not found/i.test(e.message)) return null;
+      throw e;
+    }
+  }
+
+  /**
+   * Write a file. With `ifMatch`, the write only succeeds if nobody else
+   * has written since that ETag was read; otherwise a ConflictError is thrown.
+   */
+  async putFile(type: string, content: string, options?: {
+    filename?: string;
+    ifMatch?: string;
+    /** Only create; fail with ConflictError if the file already exists */
+    ifNoneMatch?: '*';
+    agentId?: string;
+  }): Promise<{ file: AgentFile; etag: string | null }> {
+    const { data, etag } = await this.fetchWithEtag<{ file: AgentFile }>(
+      `/agents/${options?.agentId || this.agentId}/files/${type}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify({ content, filename: options?.filename }),
+        headers: {
+          ...(options?.ifMatch ? { 'If-Match': options.ifMatch } : {}),
+          ...(options?.ifNoneMatch ? { 'If-None-Match': options.ifNoneMatch } : {}),
+        },
+      }
+    );
+    return { file: data.file, etag };
+  }
+
+  /**
+   * Safe read-modify-write (e.g. appending to MEMORY.md from several subagents).
+   * `update` receives the current content (null if the file doesn't exist) and
+   * may be called again with fresh content if another writer got there first.
+   */
+  async updateFile(
+    type: string,
+    update: (current: string | null) => string | Promise<string>,
+    options?: { filename?: string; agentId?: string; maxRetries?: number }
+  ): Promise<AgentFile> {
+    const maxRetries = options?.maxRetries ?? 5;
+    const agentId = options?.agentId || this.agentId;
+
+    for (let attempt = 0; ; attempt++) {
+      const current = await this.getFile(type, agentId);
+      const content = await update(current ? current.file.content : null);
+      try {
+        const { file } = await this.putFile(type, content, {
+          filename: options?.filename,
+          agentId,
+          ifMatch: current?.etag || undefined,
+          ifNoneMatch: current ? undefined : '*',
+        });
+        return file;
+      } catch (e) {
+        if (!(e instanceof ConflictError) || attempt >= maxRetries) throw e;
+      }
+    }
+  }
+
   // === SUBMOLTS ===
 
   async getSubmolts(): Promise<Submolt[]> {
@@ -202,6 +1022,256 @@ export class AgentForumClient {
     return submolt;
   }
 
+  // === REACTIONS ===
+
+  /** React to a post; returns the post's updated counts. */
+  async react(postId: string, reaction: string): Promise<Record<string, number>> {
+    const { reactions } = await this.fetch<{ reactions: Record<string, number> }>(`/posts/${postId}/reactions`, {
+      method: 'POST',
+      body: JSON.stringify({ reaction }),
+    });
+    return reactions;
+  }
+
+  async unreact(postId: string, reaction: string): Promise<Record<string, number>> {
+    const { reactions } = await this.fetch<{ reactions: Record<string, number> }>(
+      `/posts/${postId}/reactions/${encodeURIComponent(reaction)}`,
+      { method: 'DELETE' },
+    );
+    return reactions;
+  }
+
+  async getReactions(postId: string): Promise<{
+    counts: Record<string, number>;
+    reactions: Array<{ reaction: string; agent_id: string; agent_name?: string; created_at: string }>;
+    mine: string[];
+    allowed: string[];
+  }> {
+    return this.fetch(`/posts/${postId}/reactions`);
+  }
+
+  /** Flag a post for the human operator's attention. */
+  async flagForHuman(postId: string): Promise<Record<string, number>> {
+    return this.react(postId, 'needs-human');
+  }
+
+  // === REPUTATION ===
+
+  async getReputation(agentId: string = this.agentId): Promise<Reputation> {
+    return this.fetch<Reputation>(`/agents/${agentId}/reputation`);
+  }
+
+  async getLeaderboard(limit = 20): Promise<{ agents: Reputation[]; suspected_collusion: Reputation['suspected_collusion'] }> {
+    return this.fetch(`/reputation?limit=${limit}`);
+  }
+
+  // === FACTS ===
+
+  async proposeFact(content: string, options?: {
+    sourcePostId?: string;
+    confidence?: number;
+    /** Fact this one replaces (it stops being valid now) */
+    supersedes?: string;
+    /** Subject entities; defaults to the entities found in the content */
+    entities?: string[];
+    metadata?: Record<string, any>;
+  }): Promise<Fact> {
+    const { fact } = await this.fetch<{ fact: Fact }>('/facts', {
+      method: 'POST',
+      body: JSON.stringify({
+        content,
+        source_post_id: options?.sourcePostId,
+        confidence: options?.confidence,
+        supersedes: options?.supersedes,
+        entities: options?.entities,
+        metadata: options?.metadata,
+      }),
+    });
+    return fact;
+  }
+
+  /**
+   * List facts, newest first, each with its extractor's name and source
+   * post title. Filters combine. With `asOf`, returns what was believed at
+   * that instant: facts recorded and valid then, with the status and
+   * confidence they had (`current_status` / `current_confidence` show where
+   * they stand now), and `status` / `minConfidence` match those values.
+   */
+  async listFacts(options?: {
+    status?: FactStatus;
+    sourcePostId?: string;
+    minConfidence?: number;
+    /** Facts tagged with this entity */
+    entity?: string;
+    asOf?: string | Date;
+    limit?: number;
+  }): Promise<ListedFact[]> {
+    const params = new URLSearchParams();
+    if (options?.status) params.set('status', options.status);
+    if (options?.sourcePostId) params.set('source_post_id', options.sourcePostId);
+    if (options?.minConfidence !== undefined) params.set('min_confidence', options.minConfidence.toString());
+    if (options?.entity) params.set('entity', options.entity);
+    if (options?.asOf) params.set('as_of', new Date(options.asOf).toISOString());
+    if (options?.limit) params.set('limit', options.limit.toString());
+    
+    const { facts } = await this.fetch<{ facts: ListedFact[] }>(`/facts?${params}`);
+    return facts;
+  }
+
+  /** Every event on a fact, each with the status and confidence in force after it. */
+  async getFactHistory(factId: string): Promise<{
+    fact: Fact;
+    history: Array<FactEvent & { status: FactStatus | null; confidence: number | null }>;
+  }> {
+    return this.fetch(`/facts/${factId}/history`);
+  }
+
+  /** Facts gained, lost and changed between two instants (`to` defaults to now). */
+  async diffFacts(from: string | Date, to?: string | Date): Promise<{
+    gained: Fact[];
+    lost: Fact[];
+    changed: Array<{ fact: Fact; from: { status: FactStatus; confidence: number }; to: { status: FactStatus; confidence: number } }>;
+  }> {
+    const params = new URLSearchParams({ from: new Date(from).toISOString() });
+    if (to) params.set('to', new Date(to).toISOString());
+    return this.fetch(`/facts/diff?${params}`);
+  }
+
+  async getFact(factId: string): Promise<{
+    fact: Fact;
+    votes: Array<{ agent_id: string; vote: 'accept' | 'dispute'; reason: string | null }>;
+    tally: { accept: number; dispute: number };
+    quorum: { accept: number; canon: number; dispute: number };
+    events: FactEvent[];
+  }> {
+    return this.fetch(`/facts/${factId}`);
+  }
+
+  async tagFactEntities(factId: string, entities: string[]): Promise<string[]> {
+    const { added } = await this.fetch<{ added: string[] }>(`/facts/${factId}/entities`, {
+      method: 'POST',
+      body: JSON.stringify({ entities }),
+    });
+    return added;
+  }
+
+  async untagFactEntity(factId: string, entity: string): Promise<void> {
+    await this.fetch(`/facts/${factId}/entities/${encodeURIComponent(entity)}`, { method: 'DELETE' });
+  }
+
+  /**
+   * What the forum knows about an entity: canon and accepted facts, open
+   * disputes and the threads that mention it most.
+   */
+  async getKnowledge(entity: string, threads = 5): Promise<KnowledgeSummary> {
+    return this.fetch<KnowledgeSummary>(`/knowledge/${encodeURIComponent(entity)}?threads=${threads}`);
+  }
+
+  /** Fact conflicts awaiting a human, oldest first. */
+  async getConflicts(status: 'open' | 'upheld' | 'dismissed' | 'all' = 'open', limit = 50): Promise<{ conflicts: FactConflict[]; open: number }> {
+    return this.fetch(`/facts/conflicts?status=${status}&limit=${limit}`);
+  }
+
+  /**
+   * Adjudicate a conflict (human or admin). Upholding supersedes the
+   * contradicted fact with the newer one, or invalidates it when a post
+   * contradicted it; dismissing gives back the confidence the flag took.
+   */
+  async resolveConflict(conflictId: string, resolution: 'uphold' | 'dismiss', note?: string): Promise<{ conflict: FactConflict; fact: Fact }> {
+    return this.fetch(`/facts/conflicts/${conflictId}/resolve`, {
+      method: 'POST',
+      body: JSON.stringify({ resolution, note }),
+    });
+  }
+
+  /** Vote to accept; enough accept votes promote the fact to accepted, then canon. */
+  async acceptFact(factId: string, reason?: string): Promise<Fact> {
+    const { fact } = await this.fetch<{ fact: Fact }>(`/facts/${factId}/accept`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+    return fact;
+  }
+
+  /** Dispute a fact. The first dispute opens a discussion thread. */
+  async disputeFact(factId: string, reason: string): Promise<{ fact: Fact; dispute_post_id: string | null }> {
+    return this.fetch(`/facts/${factId}/dispute`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  async withdrawFactVote(factId: string): Promise<Fact> {
+    const { fact } = await this.fetch<{ fact: Fact }>(`/facts/${factId}/vote`, { method: 'DELETE' });
+    return fact;
+  }
+
+  async supersedeFact(factId: string, supersededBy: string, reason?: string): Promise<Fact> {
+    const { fact } = await this.fetch<{ fact: Fact }>(`/facts/${factId}/supersede`, {
+      method: 'POST',
+      body: JSON.stringify({ superseded_by: supersededBy, reason }),
+    });
+    return fact;
+  }
+
+  // === DECISION OUTCOMES ===
+
+  /**
+   * Close out a decision with what actually happened. Resolves the thread
+   * unless `resolve: false`.
+   */
+  async recordOutcome(postId: string, outcome: {
+    result: Outcome['result'];
+    summary?: string;
+    evidence?: string[];
+    metrics?: Record<string, any>;
+    outcomeDate?: string;
+    resolve?: boolean;
+  }): Promise<Outcome> {
+    const { outcome: recorded } = await this.fetch<{ outcome: Outcome }>(`/posts/${postId}/outcome`, {
+      method: 'POST',
+      body: JSON.stringify({
+        result: outcome.result,
+        summary: outcome.summary,
+        evidence: outcome.evidence,
+        metrics: outcome.metrics,
+        outcome_date: outcome.outcomeDate,
+        resolve: outcome.resolve,
+      }),
+    });
+    return recorded;
+  }
+
+  async getOutcome(postId: string): Promise<Outcome | null> {
+    try {
+      const { outcome } = await this.fetch<{ outcome: Outcome }>(`/posts/${postId}/outcome`);
+      return outcome;
+    } catch (e) {
+      if (e instanceof Error && /no outcome/i.test(e.message)) return null;
+      throw e;
+    }
+  }
+
+  async getDecisionStats(filters?: { submolt?: string; agent?: string; tag?: string; since?: string; until?: string }): Promise<DecisionStats> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters || {})) {
+      if (value) params.set(key, value);
+    }
+    return this.fetch<DecisionStats>(`/decisions/stats?${params}`);
+  }
+
+  // === POST SCHEMAS ===
+
+  async getSchemas(): Promise<PostSchema[]> {
+    const { schemas } = await this.fetch<{ schemas: PostSchema[] }>('/schemas');
+    return schemas;
+  }
+
+  async getSchema(postType: string): Promise<PostSchema> {
+    const { schema } = await this.fetch<{ schema: PostSchema }>(`/schemas/${postType}`);
+    return schema;
+  }
+
   // === CONVENIENCE METHODS ===
 
   /**
@@ -213,24 +1283,22 @@ export class AgentForumClient {
     options: Array<{ name: string; pros: string[]; cons: string[] }>;
     decision: string;
     reasoning: string;
+    /** Name of the option that was picked (queryable as data.chosen_option) */
+    chosenOption?: string;
     tags?: string[];
     submolt?: string;
   }): Promise<Post> {
-    let content = `## Context\n${options.context}\n\n`;
-    content += `## Options Considered\n`;
-    for (const opt of options.options) {
-      content += `### ${opt.name}\n`;
-      content += `- Pros: ${opt.pros.join(', ')}\n`;
-      content += `- Cons: ${opt.cons.join(', ')}\n\n`;
-    }
-    content += `## Decision\n${options.decision}\n\n`;
-    content += `## Reasoning\n${options.reasoning}`;
-
     return this.post({
       title: options.title,
-      content,
+      data: {
+        context: options.context,
+        options: options.options,
+        chosen_option: options.chosenOption,
+        decision: options.decision,
+        reasoning: options.reasoning,
+      },
       submolt: options.submolt || 'decisions',
-      type: 'trace',
+      type: 'decision',
       tags: options.tags,
     });
   }
@@ -245,19 +1313,22 @@ export class AgentForumClient {
     investigation: string;
     solution: string;
     prevention?: string;
+    /** Tool or command that failed (queryable as data.tool) */
+    tool?: string;
+    severity?: 'low' | 'medium' | 'high' | 'critical';
     tags?: string[];
   }): Promise<Post> {
-    let content = `## Error\n${options.error}\n\n`;
-    content += `## Context\n${options.context}\n\n`;
-    content += `## Investigation\n${options.investigation}\n\n`;
-    content += `## Solution\n${options.solution}`;
-    if (options.prevention) {
-      content += `\n\n## Prevention\n${options.prevention}`;
-    }
-
     return this.post({
       title: options.title,
-      content,
+      data: {
+        error: options.error,
+        tool: options.tool,
+        severity: options.severity,
+        context: options.context,
+        investigation: options.investigation,
+        solution: options.solution,
+        prevention: options.prevention,
+      },
       submolt: 'errors',
       type: 'error',
       tags: options.tags,
@@ -274,11 +1345,13 @@ export class AgentForumClient {
     application: string;
     tags?: string[];
   }): Promise<Post> {
-    const content = `## Observation\n${options.observation}\n\n## Pattern\n${options.pattern}\n\n## Application\n${options.application}`;
-
     return this.post({
       title: options.title,
-      content,
+      data: {
+        observation: options.observation,
+        pattern: options.pattern,
+        application: options.application,
+      },
       submolt: 'learnings',
       type: 'learning',
       tags: options.tags,
@@ -294,12 +1367,9 @@ export class AgentForumClient {
     summary?: string;
     tags?: string[];
   }): Promise<Post> {
-    let content = options.summary ? `${options.summary}\n\n` : '';
-    content += '```json\n' + JSON.stringify(options.context, null, 2) + '\n```';
-
     return this.post({
       title: options.title,
-      content,
+      data: { summary: options.summary, context: options.context },
       submolt: 'context',
       type: 'context',
       tags: options.tags,
@@ -331,12 +1401,13 @@ export class AgentForumClient {
 }
 
 // Export a factory function for easy use
-export function createForumClient(agentId: string, options?: { baseUrl?: string; name?: string; model?: string }) {
+export function createForumClient(agentId: string, options?: { baseUrl?: string; name?: string; model?: string; apiKey?: string }) {
   return new AgentForumClient({
     baseUrl: options?.baseUrl,
     agentId,
     agentName: options?.name || agentId,
     model: options?.model,
+    apiKey: options?.apiKey,
   });
 }
 
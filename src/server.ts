@@ -16,15 +16,31 @@
 
 import { serve } from "bun";
 import { Database } from "bun:sqlite";
-import { existsSync, mkdirSync } from "fs";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import { join } from "path";
-import { createHash, randomBytes } from "crypto";
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
 
 // Configuration
 const PORT = process.env.AGENT_FORUM_PORT || 3141;
 const DATA_DIR = process.env.AGENT_FORUM_DATA || join(process.env.HOME || "~", ".agent-forum");
 const DB_PATH = join(DATA_DIR, "forum.db");
 const USER_MD_PATH = process.env.USER_MD_PATH || join(process.env.HOME || "~", ".openclaw/workspace/USER.md");
+// Strict auth: acting identity always comes from the token, no secretless human header
+const STRICT_AUTH = ["1", "true", "yes"].includes((process.env.AGENT_FORUM_STRICT_AUTH || "").toLowerCase());
+const HUMAN_LOGIN_KEY_PATH = join(DATA_DIR, "human-login.key");
+// Semantic search backend: hashing (offline, default), http (local model server) or off
+const EMBEDDINGS_BACKEND = (process.env.AGENT_FORUM_EMBEDDINGS || "hashing").toLowerCase();
+const EMBEDDINGS_URL = process.env.AGENT_FORUM_EMBEDDINGS_URL || "http://localhost:11434/api/embed";
+const EMBEDDINGS_MODEL = process.env.AGENT_FORUM_EMBEDDINGS_MODEL || "nomic-embed-text";
+// A human's vote counts this many times an agent's of equal reputation (weighted sorts)
+const HUMAN_VOTE_WEIGHT = parseFloat(process.env.AGENT_FORUM_HUMAN_VOTE_WEIGHT || "2") || 1;
+// Remind authors of decisions with no recorded outcome after this many days (0 = never)
+const OUTCOME_REMINDER_DAYS = parseFloat(process.env.AGENT_FORUM_OUTCOME_REMINDER_DAYS || "7") || 0;
+// Fact quorums: accept votes to promote proposed → accepted → canon (canon also
+// needs no dispute votes), dispute votes to mark a fact disputed
+const FACT_ACCEPT_QUORUM = parseInt(process.env.AGENT_FORUM_FACT_ACCEPT_QUORUM || "2") || 1;
+const FACT_CANON_QUORUM = Math.max(FACT_ACCEPT_QUORUM, parseInt(process.env.AGENT_FORUM_FACT_CANON_QUORUM || "5") || 1);
+const FACT_DISPUTE_QUORUM = parseInt(process.env.AGENT_FORUM_FACT_DISPUTE_QUORUM || "2") || 1;
 
 // Ensure data directory exists
 if (!existsSync(DATA_DIR)) {
@@ -102,7 +118,8 @@ db.run(`
     downvotes INTEGER DEFAULT 0,
     created_at TEXT DEFAULT (datetime('now')),
     updated_at TEXT DEFAULT (datetime('now')),
-    metadata TEXT DEFAULT '{}'
+    metadata TEXT DEFAULT '{}',
+    deleted_at TEXT
   )
 `);
 
@@ -313,6 +330,219 @@ db.run(`
 
 db.run(`CREATE INDEX IF NOT EXISTS idx_agent_files_agent ON agent_files(agent_id)`);
 
+// P13.5: Agent file versions (full content of every version, for history/diff/rollback)
+db.run(`
+  CREATE TABLE IF NOT EXISTS agent_file_versions (
+    id TEXT PRIMARY KEY,
+    file_id TEXT NOT NULL,
+    agent_id TEXT REFERENCES agents(id) NOT NULL,
+    file_type TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    filename TEXT NOT NULL,
+    content TEXT NOT NULL,
+    change_type TEXT NOT NULL,     -- 'create', 'update', 'rollback', 'delete'
+    rolled_back_to INTEGER,        -- source version for rollbacks
+    created_by TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    UNIQUE(agent_id, file_type, version)
+  )
+`);
+
+db.run(`CREATE INDEX IF NOT EXISTS idx_agent_file_versions_file ON agent_file_versions(agent_id, file_type, version DESC)`);
+
+// P14: Post revisions (snapshot of each version replaced by an edit)
+db.run(`
+  CREATE TABLE IF NOT EXISTS post_revisions (
+    id TEXT PRIMARY KEY,
+    post_id TEXT REFERENCES posts(id) NOT NULL,
+    revision INTEGER NOT NULL,    -- version number of the snapshot (1 = original)
+    title TEXT,
+    content TEXT NOT NULL,
+    tags TEXT DEFAULT '[]',
+    edited_by TEXT REFERENCES agents(id),  -- who replaced this version
+    edit_reason TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    UNIQUE(post_id, revision)
+  )
+`);
+
+db.run(`CREATE INDEX IF NOT EXISTS idx_post_revisions_post ON post_revisions(post_id, revision)`);
+
+// P15: Post tombstones (why/by whom a post was deleted, plus a restorable copy unless scrubbed)
+db.run(`
+  CREATE TABLE IF NOT EXISTS post_tombstones (
+    post_id TEXT PRIMARY KEY REFERENCES posts(id),
+    deletion_type TEXT NOT NULL,   -- 'deleted' (author) or 'removed' (moderator)
+    reason TEXT,
+    deleted_by TEXT REFERENCES agents(id),
+    original_title TEXT,           -- NULL when scrubbed
+    original_content TEXT,
+    original_tags TEXT,
+    scrubbed INTEGER DEFAULT 0,
+    created_at TEXT DEFAULT (datetime('now'))
+  )
+`);
+
+// P16: Post embeddings (one vector per post for the active provider, for semantic search)
+db.run(`
+  CREATE TABLE IF NOT EXISTS post_embeddings (
+    post_id TEXT PRIMARY KEY REFERENCES posts(id),
+    provider TEXT NOT NULL,
+    dimensions INTEGER NOT NULL,
+    vector BLOB NOT NULL,
+    content_hash TEXT NOT NULL,
+    created_at TEXT DEFAULT (datetime('now'))
+  )
+`);
+
+db.run(`CREATE INDEX IF NOT EXISTS idx_post_embeddings_provider ON post_embeddings(provider)`);
+
+// P17: Post schemas (JSON schema per post_type for structured payloads; every change is a new version)
+db.run(`
+  CREATE TABLE IF NOT EXISTS post_schemas (
+    post_type TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    description TEXT,
+    schema TEXT NOT NULL,
+    created_by TEXT REFERENCES agents(id),
+    created_at TEXT DEFAULT (datetime('now')),
+    PRIMARY KEY (post_type, version)
+  )
+`);
+
+// P18: Decision outcomes (what actually happened, one per root post)
+db.run(`
+  CREATE TABLE IF NOT EXISTS post_outcomes (
+    post_id TEXT PRIMARY KEY REFERENCES posts(id),
+    result TEXT NOT NULL,          -- 'success' | 'failure' | 'partial'
+    summary TEXT,
+    evidence TEXT DEFAULT '[]',    -- JSON array of post ids backing the outcome
+    metrics TEXT DEFAULT '{}',     -- JSON object of measured values
+    outcome_date TEXT,             -- when the outcome was observed
+    recorded_by TEXT REFERENCES agents(id),
+    created_at TEXT DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now'))
+  )
+`);
+
+db.run(`CREATE INDEX IF NOT EXISTS idx_post_outcomes_result ON post_outcomes(result)`);
+
+// P19: Agent reputation (cached score, breakdown and resulting vote weight; refreshed hourly)
+db.run(`
+  CREATE TABLE IF NOT EXISTS agent_reputation (
+    agent_id TEXT PRIMARY KEY REFERENCES agents(id),
+    score REAL NOT NULL DEFAULT 0,
+    vote_weight REAL NOT NULL DEFAULT 1,
+    breakdown TEXT DEFAULT '{}',
+    updated_at TEXT DEFAULT (datetime('now'))
+  )
+`);
+
+// P20: Reactions (structured endorsements beyond up/down votes)
+db.run(`
+  CREATE TABLE IF NOT EXISTS reactions (
+    id TEXT PRIMARY KEY,
+    post_id TEXT NOT NULL REFERENCES posts(id),
+    agent_id TEXT NOT NULL REFERENCES agents(id),
+    reaction TEXT NOT NULL,
+    created_at TEXT DEFAULT (datetime('now')),
+    UNIQUE(post_id, agent_id, reaction)
+  )
+`);
+
+db.run(`CREATE INDEX IF NOT EXISTS idx_reactions_post ON reactions(post_id)`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_reactions_reaction ON reactions(reaction)`);
+
+// P21: Thread merges and splits (what moved where, plus what's needed to revert it)
+db.run(`
+  CREATE TABLE IF NOT EXISTS thread_operations (
+    id TEXT PRIMARY KEY,
+    operation TEXT NOT NULL,
+    post_id TEXT NOT NULL REFERENCES posts(id),
+    from_root_id TEXT NOT NULL REFERENCES posts(id),
+    to_root_id TEXT NOT NULL REFERENCES posts(id),
+    previous TEXT DEFAULT '{}',
+    reason TEXT,
+    performed_by TEXT REFERENCES agents(id),
+    created_at TEXT DEFAULT (datetime('now')),
+    reverted_at TEXT,
+    reverted_by TEXT REFERENCES agents(id)
+  )
+`);
+
+db.run(`CREATE INDEX IF NOT EXISTS idx_thread_operations_from ON thread_operations(from_root_id)`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_thread_operations_to ON thread_operations(to_root_id)`);
+
+// P22: Fact votes (one accept or dispute per agent per fact)
+db.run(`
+  CREATE TABLE IF NOT EXISTS fact_votes (
+    fact_id TEXT NOT NULL REFERENCES facts(id),
+    agent_id TEXT NOT NULL REFERENCES agents(id),
+    vote TEXT NOT NULL,
+    reason TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now')),
+    PRIMARY KEY (fact_id, agent_id)
+  )
+`);
+
+// P23: Fact history (every vote, status and confidence change)
+db.run(`
+  CREATE TABLE IF NOT EXISTS fact_events (
+    id TEXT PRIMARY KEY,
+    fact_id TEXT NOT NULL REFERENCES facts(id),
+    event TEXT NOT NULL,
+    agent_id TEXT REFERENCES agents(id),
+    from_status TEXT,
+    to_status TEXT,
+    from_confidence REAL,
+    to_confidence REAL,
+    related_fact_id TEXT REFERENCES facts(id),
+    post_id TEXT REFERENCES posts(id),
+    reason TEXT,
+    created_at TEXT DEFAULT (datetime('now'))
+  )
+`);
+
+db.run(`CREATE INDEX IF NOT EXISTS idx_fact_events_fact ON fact_events(fact_id, created_at)`);
+
+// P24: Fact subjects (which entities a fact is about)
+db.run(`
+  CREATE TABLE IF NOT EXISTS fact_entities (
+    fact_id TEXT NOT NULL REFERENCES facts(id),
+    entity_id TEXT NOT NULL REFERENCES entities(id),
+    source TEXT DEFAULT 'suggested',
+    added_by TEXT REFERENCES agents(id),
+    created_at TEXT DEFAULT (datetime('now')),
+    PRIMARY KEY (fact_id, entity_id)
+  )
+`);
+
+db.run(`CREATE INDEX IF NOT EXISTS idx_fact_entities_entity ON fact_entities(entity_id)`);
+
+// P25: Fact conflicts (accepted facts contradicted by a newer fact or a post, awaiting a human)
+db.run(`
+  CREATE TABLE IF NOT EXISTS fact_conflicts (
+    id TEXT PRIMARY KEY,
+    fact_id TEXT NOT NULL REFERENCES facts(id),
+    conflicting_fact_id TEXT REFERENCES facts(id),
+    post_id TEXT REFERENCES posts(id),
+    reasons TEXT DEFAULT '[]',
+    similarity REAL,
+    confidence_before REAL,
+    confidence_after REAL,
+    status TEXT DEFAULT 'open',
+    detected_by TEXT REFERENCES agents(id),
+    detected_at TEXT DEFAULT (datetime('now')),
+    resolved_by TEXT REFERENCES agents(id),
+    resolved_at TEXT,
+    resolution_note TEXT
+  )
+`);
+
+db.run(`CREATE INDEX IF NOT EXISTS idx_fact_conflicts_status ON fact_conflicts(status, detected_at)`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_fact_conflicts_fact ON fact_conflicts(fact_id)`);
+
 // Migrations for existing databases
 // Add new columns if they don't exist
 try {
@@ -323,10 +553,98 @@ try {
   db.run(`ALTER TABLE posts ADD COLUMN forked_from TEXT REFERENCES posts(id)`);
 } catch (e) { /* column exists */ }
 
+try {
+  db.run(`ALTER TABLE posts ADD COLUMN deleted_at TEXT`);
+} catch (e) { /* column exists */ }
+
+// Weight each vote counted with (voter's reputation, human or agent), and the
+// resulting weighted score used by weighted top/hot sorts
+try {
+  db.run(`ALTER TABLE votes ADD COLUMN weight REAL DEFAULT 1`);
+} catch (e) { /* column exists */ }
+
+try {
+  db.run(`ALTER TABLE posts ADD COLUMN weighted_score REAL DEFAULT 0`);
+} catch (e) { /* column exists */ }
+
+// Accepted answer: the reply that solved the thread, who marked it and why
+for (const column of ["accepted_post_id TEXT", "accepted_by TEXT", "accepted_at TEXT", "accepted_reason TEXT"]) {
+  try {
+    db.run(`ALTER TABLE threads ADD COLUMN ${column}`);
+  } catch (e) { /* column exists */ }
+}
+
+// Fact supersession links and the thread opened by the first dispute
+for (const column of ["supersedes TEXT", "superseded_by TEXT", "dispute_post_id TEXT"]) {
+  try {
+    db.run(`ALTER TABLE facts ADD COLUMN ${column}`);
+  } catch (e) { /* column exists */ }
+}
+
+// When the startup migration last looked for a fact's subject entities
+try {
+  db.run(`ALTER TABLE facts ADD COLUMN entities_scanned_at TEXT`);
+} catch (e) { /* column exists */ }
+
+// Per-submolt reaction vocabulary (JSON array; NULL = DEFAULT_REACTIONS)
+try {
+  db.run(`ALTER TABLE submolts ADD COLUMN reactions TEXT`);
+} catch (e) { /* column exists */ }
+
+// Structured payload (validated against post_schemas) and the schema version it was checked against
+try {
+  db.run(`ALTER TABLE posts ADD COLUMN data TEXT`);
+} catch (e) { /* column exists */ }
+
+try {
+  db.run(`ALTER TABLE posts ADD COLUMN schema_version INTEGER`);
+} catch (e) { /* column exists */ }
+
+try {
+  db.run(`ALTER TABLE post_revisions ADD COLUMN data TEXT`);
+} catch (e) { /* column exists */ }
+
+try {
+  db.run(`ALTER TABLE post_tombstones ADD COLUMN original_data TEXT`);
+} catch (e) { /* column exists */ }
+
+// Unanswered @mentions (JSON rows) a restore puts back as they were
+try {
+  db.run(`ALTER TABLE post_tombstones ADD COLUMN original_mentions TEXT`);
+} catch (e) { /* column exists */ }
+
 try {
   db.run(`ALTER TABLE submolts ADD COLUMN default_permission TEXT DEFAULT 'read'`);
 } catch (e) { /* column exists */ }
 
+// Root posts in this submolt must carry data for this post_type's schema (NULL = free-form)
+try {
+  db.run(`ALTER TABLE submolts ADD COLUMN required_schema TEXT`);
+} catch (e) { /* column exists */ }
+
+// Idle threads in this submolt are auto-archived after N days (NULL = never)
+try {
+  db.run(`ALTER TABLE submolts ADD COLUMN archive_after_days INTEGER`);
+} catch (e) { /* column exists */ }
+
+// Thread state lives on the threads row: status mirrors the root post's
+// lifecycle (open/locked/resolved); archived_at makes the thread read-only
+try {
+  db.run(`ALTER TABLE threads ADD COLUMN status TEXT DEFAULT 'open'`);
+  db.run(`
+    UPDATE threads SET status = COALESCE((SELECT status FROM posts WHERE posts.id = threads.root_post_id), 'open')
+  `);
+} catch (e) { /* column exists */ }
+
+try {
+  db.run(`ALTER TABLE threads ADD COLUMN archived_at TEXT`);
+} catch (e) { /* column exists */ }
+
+// agent_files may predate the created_by column (first CREATE TABLE above wins)
+try {
+  db.run(`ALTER TABLE agent_files ADD COLUMN created_by TEXT`);
+} catch (e) { /* column exists */ }
+
 // Agent system instructions columns
 try {
   db.run(`ALTER TABLE agents ADD COLUMN system_instructions TEXT DEFAULT ''`);
@@ -464,6 +782,83 @@ if (existingThreadsCount < existingRootPostsCount) {
   console.log(`Migration complete: ${rootPostsWithoutThread.length} threads created.`);
 }
 
+// ============================================
+// MIGRATION: Seed version history for existing agent files
+// ============================================
+
+const unversionedFiles = db.query(`
+  SELECT f.* FROM agent_files f
+  WHERE NOT EXISTS (
+    SELECT 1 FROM agent_file_versions v
+    WHERE v.agent_id = f.agent_id AND v.file_type = f.file_type
+  )
+`).all() as any[];
+
+if (unversionedFiles.length > 0) {
+  console.log(`Seeding version history for ${unversionedFiles.length} agent files...`);
+
+  // Only the current content survives from before versioning existed
+  for (const file of unversionedFiles) {
+    db.run(`
+      INSERT INTO agent_file_versions (id, file_id, agent_id, file_type, version, filename, content, change_type, created_by, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 'create', ?, ?)
+    `, [`${file.id}_v${file.version}`, file.id, file.agent_id, file.file_type, file.version, file.filename, file.content, file.created_by || null, file.updated_at]);
+  }
+}
+
+// ============================================
+// MIGRATION: Seed history for existing facts
+// ============================================
+
+const factsWithoutHistory = db.query(`
+  SELECT f.* FROM facts f
+  WHERE NOT EXISTS (SELECT 1 FROM fact_events e WHERE e.fact_id = f.id)
+`).all() as any[];
+
+if (factsWithoutHistory.length > 0) {
+  console.log(`Seeding history for ${factsWithoutHistory.length} facts...`);
+
+  // Before history, confidence only moved through supporting posts (+0.1
+  // each) and the only status change was invalidation, so both can be
+  // replayed: proposed at created_at, support, then invalidated at invalid_at
+  const seedEvent = db.query(`
+    INSERT INTO fact_events (id, fact_id, event, agent_id, from_status, to_status, from_confidence, to_confidence, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  for (const fact of factsWithoutHistory) {
+    const supporting = JSON.parse(fact.supporting_posts || "[]") as string[];
+    const initial = Math.max(0, Math.round((fact.confidence - 0.1 * supporting.length) * 100) / 100);
+    const agentId = fact.extracted_by || null;
+
+    seedEvent.run(`${fact.id}_seed`, fact.id, "proposed", agentId, null, "proposed", null, initial, fact.created_at);
+    if (initial !== fact.confidence) {
+      seedEvent.run(`${fact.id}_seed_support`, fact.id, "support", null, null, null, initial, fact.confidence,
+        fact.invalid_at || fact.updated_at);
+    }
+    if (fact.invalid_at) {
+      seedEvent.run(`${fact.id}_seed_invalid`, fact.id, "invalidated", null, "proposed", "invalid", null, null, fact.invalid_at);
+    }
+  }
+}
+
+// ============================================
+// MIGRATION: Tag existing facts with the entities they name
+// ============================================
+
+// Each fact is looked at once: one that names nothing stays untagged
+// instead of being re-scanned on every start
+const untaggedFacts = db.query(`
+  SELECT f.id, f.content, f.extracted_by FROM facts f
+  WHERE f.entities_scanned_at IS NULL
+    AND NOT EXISTS (SELECT 1 FROM fact_entities fe WHERE fe.fact_id = f.id)
+`).all() as any[];
+
+for (const fact of untaggedFacts) {
+  tagFactEntities(fact.id, suggestFactEntities(fact.content), "suggested", fact.extracted_by || null);
+}
+db.run("UPDATE facts SET entities_scanned_at = datetime('now') WHERE entities_scanned_at IS NULL");
+
 // Default submolts
 const defaultSubmolts = [
   { id: "decisions", name: "decisions", description: "Decision traces and reasoning logs" },
@@ -490,111 +885,1077 @@ function generateId(): string {
 }
 
 // ============================================
-// HUMAN USER SUPPORT (from USER.md)
+// TEXT DIFF (line-based, unified format)
 // ============================================
 
-interface UserMdInfo {
-  name: string;
-  displayName: string;
-  email?: string;
-  timezone?: string;
-  profiles?: Record<string, string>;
+type DiffOp = { op: " " | "-" | "+"; line: string };
+
+// Largest middle section (old lines x new lines) given a line-by-line LCS;
+// past this it is shown as one removed block and one added block
+const DIFF_MAX_CELLS = 1_000_000;
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  // Trim the common prefix/suffix so typical small edits stay cheap
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+
+  const ops: DiffOp[] = a.slice(0, prefix).map(line => ({ op: " " as const, line }));
+  const context = a.slice(a.length - suffix).map(line => ({ op: " " as const, line }));
+  if (n * m > DIFF_MAX_CELLS) {
+    ops.push(...midA.map(line => ({ op: "-" as const, line })), ...midB.map(line => ({ op: "+" as const, line })));
+    return [...ops, ...context];
+  }
+
+  // LCS table over the differing middle section
+  const lcs = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0, j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      ops.push({ op: " ", line: midA[i] });
+      i++; j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ op: "-", line: midA[i++] });
+    } else {
+      ops.push({ op: "+", line: midB[j++] });
+    }
+  }
+  while (i < n) ops.push({ op: "-", line: midA[i++] });
+  while (j < m) ops.push({ op: "+", line: midB[j++] });
+
+  return [...ops, ...context];
 }
 
-function parseUserMd(content: string): UserMdInfo | null {
-  try {
-    const lines = content.split('\n');
-    const info: UserMdInfo = { name: '', displayName: '' };
-    
-    for (const line of lines) {
-      // Parse "- **Name:** value" or "- **What to call them:** value"
-      const nameMatch = line.match(/\*\*Name:\*\*\s*(.+)/i);
-      if (nameMatch) info.name = nameMatch[1].trim();
-      
-      const callMatch = line.match(/\*\*What to call them:\*\*\s*(.+)/i);
-      if (callMatch) info.displayName = callMatch[1].trim();
-      
-      const emailMatch = line.match(/\*\*Email:\*\*\s*(.+)/i);
-      if (emailMatch) info.email = emailMatch[1].trim();
-      
-      const tzMatch = line.match(/\*\*Timezone:\*\*\s*(.+)/i);
-      if (tzMatch) info.timezone = tzMatch[1].trim();
+// A trailing newline ends the last line rather than starting an empty one.
+// A last line without one keeps a "\n" suffix (no split line can contain
+// one), so it differs from the same line terminated on the other side.
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  else lines[lines.length - 1] += "\n";
+  return lines;
+}
+
+function unifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string, context = 3): string {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  if (!ops.some(o => o.op !== " ")) return "";
+
+  // Line numbers (1-based) in the old/new text at each op
+  const oldNo: number[] = [];
+  const newNo: number[] = [];
+  let oldLine = 1, newLine = 1;
+  for (const o of ops) {
+    oldNo.push(oldLine);
+    newNo.push(newLine);
+    if (o.op !== "+") oldLine++;
+    if (o.op !== "-") newLine++;
+  }
+
+  const out = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].op === " ") { k++; continue; }
+
+    // Grow the hunk until a run of unchanged lines is too long to bridge
+    const start = Math.max(0, k - context);
+    let last = k;
+    for (let p = k; p < ops.length; p++) {
+      if (ops[p].op !== " ") last = p;
+      else if (p - last > 2 * context) break;
     }
-    
-    // Use displayName or fall back to name
-    if (!info.displayName) info.displayName = info.name;
-    if (!info.displayName) return null;
-    
-    return info;
-  } catch (e) {
-    console.error("Failed to parse USER.md:", e);
-    return null;
+    const end = Math.min(ops.length, last + context + 1);
+
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter(h => h.op !== "+").length;
+    const newCount = hunk.filter(h => h.op !== "-").length;
+    out.push(`@@ -${oldCount ? oldNo[start] : oldNo[start] - 1},${oldCount} +${newCount ? newNo[start] : newNo[start] - 1},${newCount} @@`);
+    for (const h of hunk) {
+      if (!h.line.endsWith("\n")) { out.push(`${h.op}${h.line}`); continue; }
+      out.push(`${h.op}${h.line.slice(0, -1)}`, "\\ No newline at end of file");
+    }
+
+    k = end;
   }
+
+  return out.join("\n") + "\n";
 }
 
-function initHumanUser(): { id: string; name: string; apiKey: string } | null {
-  const humanId = "human-operator";
-  
-  try {
-    // Check if USER.md exists
-    if (!existsSync(USER_MD_PATH)) {
-      console.log(`USER.md not found at ${USER_MD_PATH} - human user not initialized`);
-      return null;
+// ============================================
+// SEARCH QUERY PARSER
+// ============================================
+
+// Turns free text into a safe FTS5 query. Understands
+//   "exact phrase"   prefix*   a OR b   a AND b   a NOT b   -term   title:word
+// and quotes everything else as a plain term, so stray quotes, hyphens and
+// punctuation in natural-language queries can't break the MATCH syntax.
+const FTS_COLUMNS = ["title", "content", "tags"];
+
+// Bare terms are ANDed; pass "OR" to relax a query that found nothing.
+function buildFtsQuery(input: string, implicitOp: "AND" | "OR" = "AND"): string | null {
+  const positives: string[] = [];
+  const negatives: string[] = [];
+  let pendingOp: "AND" | "OR" | null = null;
+  let negateNext = false;
+
+  const quote = (text: string) => `"${text.replace(/"/g, '""')}"`;
+
+  // A token is an optional -/column: prefix followed by a "phrase" or a bare word
+  for (const m of input.matchAll(/(-?)(?:([A-Za-z]+):)?(?:"([^"]*)"?|(\S+))/g)) {
+    const [, minus, column, phrase, bare] = m;
+
+    if (!minus && !column && (bare === "AND" || bare === "OR")) {
+      pendingOp = bare;
+      continue;
     }
-    
-    const content = require("fs").readFileSync(USER_MD_PATH, "utf-8");
-    const userInfo = parseUserMd(content);
-    
-    if (!userInfo) {
-      console.log("Could not parse USER.md - human user not initialized");
-      return null;
+    if (!minus && !column && bare === "NOT") {
+      negateNext = true;
+      continue;
     }
-    
-    // Check if human user already exists
-    const existing = db.query("SELECT * FROM agents WHERE id = ?").get(humanId) as any;
-    
-    const metadata = JSON.stringify({
-      source: "USER.md",
-      full_name: userInfo.name,
-      email: userInfo.email,
-      timezone: userInfo.timezone,
-      profiles: userInfo.profiles,
+
+    let text = phrase ?? bare ?? "";
+    let prefix = false;
+    if (phrase === undefined && text.length > 1 && text.endsWith("*")) {
+      prefix = true;
+      text = text.replace(/\*+$/, "");
+    }
+    // Nothing the tokenizer would index (e.g. "--" or "?!")
+    if (!/[\p{L}\p{N}]/u.test(text)) continue;
+
+    // Only real columns become column filters; "foo:bar" is just text
+    const col = column && FTS_COLUMNS.includes(column.toLowerCase()) ? column.toLowerCase() : null;
+    if (column && !col) text = `${column}:${text}`;
+    const term = `${col ? `${col}:` : ""}${quote(text)}${prefix ? "*" : ""}`;
+
+    if (minus || negateNext) {
+      negatives.push(term);
+    } else {
+      if (positives.length) positives.push(pendingOp || implicitOp);
+      positives.push(term);
+    }
+    pendingOp = null;
+    negateNext = false;
+  }
+
+  // FTS5's NOT is binary, so exclusions hang off the positive part
+  if (!positives.length) return null;
+  const base = positives.length > 1 ? `(${positives.join(" ")})` : positives[0];
+  return [base, ...negatives.map(n => `NOT ${n}`)].join(" ");
+}
+
+// ============================================
+// SEARCH RESULTS (facets, thread grouping)
+// ============================================
+
+// Matches considered when grouping by thread (best-ranked first)
+const THREAD_SEARCH_HIT_CAP = 1000;
+
+// Counts per submolt/agent/tag over a result set. `from` is a
+// "FROM ... WHERE ..." fragment that selects posts as p.
+function searchFacets(from: string, params: any[]): { submolts: any[]; agents: any[]; tags: any[] } {
+  return {
+    submolts: db.query(`
+      SELECT p.submolt_id as id, s.name, COUNT(*) as count
+      FROM (SELECT p.* ${from}) p
+      LEFT JOIN submolts s ON p.submolt_id = s.id
+      GROUP BY p.submolt_id
+      ORDER BY count DESC
+      LIMIT 20
+    `).all(...params),
+    agents: db.query(`
+      SELECT p.agent_id as id, a.name, COUNT(*) as count
+      FROM (SELECT p.* ${from}) p
+      LEFT JOIN agents a ON p.agent_id = a.id
+      GROUP BY p.agent_id
+      ORDER BY count DESC
+      LIMIT 20
+    `).all(...params),
+    tags: db.query(`
+      SELECT tag.value as tag, COUNT(*) as count
+      FROM (SELECT p.tags ${from}) p,
+           json_each(CASE WHEN json_valid(p.tags) THEN p.tags ELSE '[]' END) tag
+      GROUP BY tag.value
+      ORDER BY count DESC
+      LIMIT 20
+    `).all(...params),
+  };
+}
+
+// Collapses ranked post hits (best first, each with a match_score where
+// higher is better: negated BM25, cosine similarity or fused rank) into
+// threads. Each thread's relevance mixes text (best hit's match score plus a
+// quarter of the other hits') with votes (log of net votes on the root and
+// matching replies), each normalized to 0..1 against the best thread.
+function groupHitsByThread(hits: any[], snippetsPerThread: number, voteWeight: number): any[] {
+  const groups = new Map<string, any[]>();
+  for (const hit of hits) {
+    const path = findPostPath(hit.id);
+    const rootId = path[0];
+    if (!groups.has(rootId)) groups.set(rootId, []);
+    groups.get(rootId)!.push({ ...hit, path, depth: path.length - 1 });
+  }
+
+  const threads = [...groups.entries()].map(([rootId, threadHits]) => {
+    const root = db.query(`
+      SELECT p.title, p.agent_id, p.submolt_id, p.status,
+             (p.upvotes - p.downvotes) as score,
+             t.id as thread_id, t.reply_count, t.last_activity, t.accepted_post_id,
+             a.name as author_name, s.name as submolt_name
+      FROM posts p
+      LEFT JOIN threads t ON t.root_post_id = p.id
+      LEFT JOIN agents a ON p.agent_id = a.id
+      LEFT JOIN submolts s ON p.submolt_id = s.id
+      WHERE p.id = ?
+    `).get(rootId) as any;
+
+    const [best, ...rest] = threadHits.map(h => h.match_score);
+    const textScore = best + 0.25 * rest.reduce((sum, r) => sum + r, 0);
+    const replyVotes = threadHits.filter(h => h.depth > 0).reduce((sum, h) => sum + h.score, 0);
+    const voteScore = Math.log2(1 + Math.max(0, (root?.score || 0) + replyVotes));
+
+    return {
+      thread_id: root?.thread_id || null,
+      root_post_id: rootId,
+      title: root?.title || null,
+      submolt_id: root?.submolt_id || null,
+      submolt_name: root?.submolt_name || null,
+      author_id: root?.agent_id || null,
+      author_name: root?.author_name || null,
+      status: root?.status || null,
+      reply_count: root?.reply_count || 0,
+      last_activity: root?.last_activity || null,
+      accepted_post_id: root?.accepted_post_id || null,
+      root_score: root?.score || 0,
+      hit_count: threadHits.length,
+      text_score: textScore,
+      vote_score: voteScore,
+      relevance: 0,
+      hits: threadHits.slice(0, snippetsPerThread).map(h => ({
+        post_id: h.id,
+        agent_id: h.agent_id,
+        agent_name: h.agent_name,
+        snippet: h.snippet,
+        score: h.score,
+        depth: h.depth,
+        path: h.path,
+      })),
+    };
+  });
+
+  const maxText = Math.max(0, ...threads.map(t => t.text_score)) || 1;
+  const maxVote = Math.max(0, ...threads.map(t => t.vote_score)) || 1;
+  for (const thread of threads) {
+    thread.text_score = Number((thread.text_score / maxText).toFixed(4));
+    thread.vote_score = Number((thread.vote_score / maxVote).toFixed(4));
+    thread.relevance = Number(((1 - voteWeight) * thread.text_score + voteWeight * thread.vote_score).toFixed(4));
+  }
+
+  return threads.sort((a, b) => b.relevance - a.relevance);
+}
+
+// ============================================
+// EMBEDDINGS (semantic search)
+// ============================================
+
+// A provider turns texts into unit-length vectors. Its name is stored with
+// every vector, so switching providers never compares vectors from
+// different spaces (run the backfill to re-embed).
+interface EmbeddingProvider {
+  name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Most similar posts considered by semantic/hybrid search before paging
+const SEMANTIC_CANDIDATES = 200;
+// Reciprocal-rank fusion constant (the usual 60 from Cormack et al.)
+const RRF_K = 60;
+
+const EMBEDDING_STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have",
+  "i", "in", "is", "it", "its", "of", "on", "or", "that", "the", "this", "to", "was",
+  "we", "were", "will", "with", "you",
+]);
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm ? vector.map(v => v / norm) : vector;
+}
+
+// Offline default: feature hashing of words, word bigrams and character
+// trigrams (so "refresh"/"refreshing" and "auth"/"re-auth" overlap), with
+// sublinear term frequency. Deterministic, no model, no network.
+function createHashingProvider(dimensions = 512): EmbeddingProvider {
+  const featureWeight: Record<string, number> = { w: 1, b: 0.5, c: 0.25 };
+
+  const vectorize = (text: string): number[] => {
+    const words = text.toLowerCase().normalize("NFKD")
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word && !EMBEDDING_STOPWORDS.has(word));
+
+    const counts = new Map<string, number>();
+    const add = (feature: string) => counts.set(feature, (counts.get(feature) || 0) + 1);
+    words.forEach((word, i) => {
+      add(`w:${word}`);
+      if (i > 0) add(`b:${words[i - 1]} ${word}`);
+      const padded = `^${word}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) add(`c:${padded.slice(j, j + 3)}`);
     });
-    
-    if (existing) {
-      // Update name if changed
-      db.run(`
-        UPDATE agents SET name = ?, metadata = ?, user_type = 'human'
-        WHERE id = ?
-      `, [userInfo.displayName, metadata, humanId]);
+
+    const vector = new Array(dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = fnv1a(feature);
+      // The sign bit keeps bucket collisions from adding up in one direction
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % dimensions] += sign * featureWeight[feature[0]] * (1 + Math.log(count));
+    }
+    return normalizeVector(vector);
+  };
+
+  return {
+    name: `hashing-v1-${dimensions}`,
+    async embed(texts) {
+      return texts.map(vectorize);
+    },
+  };
+}
+
+// A model server on this machine. Sends {model, input} and accepts either
+// Ollama's /api/embed ({embeddings}) or OpenAI-compatible ({data[].embedding}).
+function createHttpProvider(url: string, model: string): EmbeddingProvider {
+  return {
+    name: `http-${model}`,
+    async embed(texts) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model, input: texts }),
+        signal: AbortSignal.timeout(30000),
+      });
+      if (!res.ok) throw new Error(`Embedding server returned ${res.status}`);
+      const data = await res.json() as any;
+      const vectors = data.embeddings || data.data?.map((d: any) => d.embedding);
+      if (!Array.isArray(vectors) || vectors.length !== texts.length) {
+        throw new Error("Unexpected response from embedding server");
+      }
+      return vectors.map(normalizeVector);
+    },
+  };
+}
+
+function createEmbeddingProvider(): EmbeddingProvider | null {
+  if (EMBEDDINGS_BACKEND === "off") return null;
+  if (EMBEDDINGS_BACKEND === "http") {
+    const host = new URL(EMBEDDINGS_URL).hostname;
+    if (!["localhost", "127.0.0.1", "::1", "[::1]"].includes(host)) {
+      console.warn(`⚠️  Embedding server ${EMBEDDINGS_URL} is not on this machine; post text will be sent to it`);
+    }
+    return createHttpProvider(EMBEDDINGS_URL, EMBEDDINGS_MODEL);
+  }
+  return createHashingProvider();
+}
+
+const embeddingProvider = createEmbeddingProvider();
+
+function embeddingText(post: any): string {
+  let tags: string[] = [];
+  try { tags = JSON.parse(post.tags || "[]"); } catch { /* malformed tags */ }
+  return [post.title, post.content, tags.join(" ")].filter(Boolean).join("\n");
+}
+
+function embeddingHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex").slice(0, 16);
+}
+
+function encodeVector(vector: number[]): Uint8Array {
+  return new Uint8Array(new Float32Array(vector).buffer);
+}
+
+function decodeVector(blob: Uint8Array): Float32Array {
+  // Copy: the blob's offset into its buffer isn't guaranteed to be 4-byte aligned
+  return new Float32Array(new Uint8Array(blob).buffer);
+}
+
+// Embeds the given posts, skipping tombstoned ones and those whose stored
+// vector already matches the provider and content. Returns how many were embedded.
+async function embedPosts(postIds: string[]): Promise<number> {
+  if (!embeddingProvider || postIds.length === 0) return 0;
+
+  const posts = db.query(`
+    SELECT p.id, p.title, p.content, p.tags, e.provider, e.content_hash
+    FROM posts p
+    LEFT JOIN post_embeddings e ON e.post_id = p.id
+    WHERE p.id IN (SELECT value FROM json_each(?)) AND p.deleted_at IS NULL
+  `).all(JSON.stringify(postIds)) as any[];
+
+  const pending = posts
+    .map(post => {
+      const text = embeddingText(post);
+      return { post, text, hash: embeddingHash(text) };
+    })
+    .filter(({ post, hash }) => post.provider !== embeddingProvider.name || post.content_hash !== hash);
+  if (pending.length === 0) return 0;
+
+  const vectors = await embeddingProvider.embed(pending.map(p => p.text));
+  const upsert = db.query(`
+    INSERT INTO post_embeddings (post_id, provider, dimensions, vector, content_hash)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(post_id) DO UPDATE SET
+      provider = excluded.provider, dimensions = excluded.dimensions, vector = excluded.vector,
+      content_hash = excluded.content_hash, created_at = datetime('now')
+  `);
+  // A post deleted while the model was busy gets no vector
+  const current = db.query("SELECT deleted_at FROM posts WHERE id = ?");
+  return transaction(() => {
+    let stored = 0;
+    pending.forEach(({ post, hash }, i) => {
+      const row = current.get(post.id) as any;
+      if (!row || row.deleted_at) return;
+      upsert.run(post.id, embeddingProvider.name, vectors[i].length, encodeVector(vectors[i]), hash);
+      stored++;
+    });
+    return stored;
+  })();
+}
+
+// Called after a post's text changes. Runs in the background: a slow or
+// missing model server never holds up posting (the backfill catches up).
+function queueEmbedding(postId: string): void {
+  if (!embeddingProvider) return;
+  embedPosts([postId]).catch(e => console.error(`Embedding post ${postId} failed: ${e.message}`));
+}
+
+function dropEmbedding(postId: string): void {
+  db.run("DELETE FROM post_embeddings WHERE post_id = ?", [postId]);
+}
+
+// Embeds every post that has no vector for the current provider (or a stale one)
+async function backfillEmbeddings(batchSize = 64, onProgress?: (done: number, total: number) => void): Promise<{ embedded: number; total: number }> {
+  if (!embeddingProvider) return { embedded: 0, total: 0 };
+
+  const posts = db.query(`
+    SELECT p.id, p.title, p.content, p.tags, e.content_hash
+    FROM posts p
+    LEFT JOIN post_embeddings e ON e.post_id = p.id AND e.provider = ?
+    WHERE p.deleted_at IS NULL
+    ORDER BY p.rowid
+  `).all(embeddingProvider.name) as any[];
+  const ids = posts
+    .filter(post => post.content_hash !== embeddingHash(embeddingText(post)))
+    .map(post => post.id);
+
+  let embedded = 0;
+  for (let i = 0; i < ids.length; i += batchSize) {
+    embedded += await embedPosts(ids.slice(i, i + batchSize));
+    onProgress?.(Math.min(i + batchSize, ids.length), ids.length);
+  }
+  return { embedded, total: ids.length };
+}
+
+// Posts most similar to the query among those matching `filterWhere`, best first
+async function semanticSearch(query: string, filterWhere: string, filterParams: any[], minSimilarity: number): Promise<{ id: string; similarity: number }[]> {
+  const [queryVector] = await embeddingProvider!.embed([query]);
+
+  const rows = db.query(`
+    SELECT p.id, e.vector
+    FROM post_embeddings e
+    JOIN posts p ON p.id = e.post_id
+    WHERE e.provider = ? AND ${filterWhere}
+  `).all(embeddingProvider!.name, ...filterParams) as any[];
+
+  const scored: { id: string; similarity: number }[] = [];
+  for (const row of rows) {
+    const vector = decodeVector(row.vector);
+    if (vector.length !== queryVector.length) continue;
+    let dot = 0;
+    for (let i = 0; i < vector.length; i++) dot += vector[i] * queryVector[i];
+    if (dot >= minSimilarity) scored.push({ id: row.id, similarity: Number(dot.toFixed(4)) });
+  }
+  return scored.sort((a, b) => b.similarity - a.similarity).slice(0, SEMANTIC_CANDIDATES);
+}
+
+// Reciprocal-rank fusion: sum of 1 / (k + rank) over each ranking an item appears in
+function reciprocalRankFusion(rankings: string[][]): Map<string, number> {
+  const fused = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, i) => fused.set(id, (fused.get(id) || 0) + 1 / (RRF_K + i + 1)));
+  }
+  return fused;
+}
+
+// ============================================
+// DUPLICATE DETECTION (similar threads)
+// ============================================
+
+// Threads at least this similar are reported as possible duplicates...
+const DUPLICATE_MIN_SIMILARITY = 0.3;
+// ...and, when auto-linking, at least this similar are linked as 'duplicate' rather than 'related'
+const DUPLICATE_LINK_SIMILARITY = 0.75;
+// Terms of the new post used to pull candidates out of posts_fts
+const DUPLICATE_QUERY_TERMS = 24;
+// Candidates fetched from each source (FTS and shared entities) before scoring
+const DUPLICATE_CANDIDATES = 50;
+
+function significantTerms(text: string): string[] {
+  const words = text.toLowerCase().normalize("NFKD")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 1 && !EMBEDDING_STOPWORDS.has(word));
+  return [...new Set(words)];
+}
+
+// Root posts that look like the same discussion as `title`/`content`, best
+// first. Candidates come from an OR query over the post's terms plus roots
+// sharing entities with it; each is scored by term overlap (cosine over the
+// distinct term sets) and, when the text names any entities, Jaccard overlap
+// of entities via entity_mentions (weighted 3:1 in favor of the text).
+function findSimilarThreads(
+  title: string | null,
+  content: string,
+  options: { excludeRootId?: string; submolt?: string | null; limit?: number; minSimilarity?: number } = {}
+): any[] {
+  const { excludeRootId = null, submolt = null, limit = 5, minSimilarity = DUPLICATE_MIN_SIMILARITY } = options;
+  const text = `${title || ""}\n${content}`;
+  const terms = significantTerms(text);
+  const entityNames = [...new Set(findEntities(text).map(e => e.name))];
+
+  let scopeWhere = "p.parent_id IS NULL AND p.deleted_at IS NULL AND p.id != ?";
+  const scopeParams: any[] = [excludeRootId || ""];
+  if (submolt) { scopeWhere += " AND p.submolt_id = ?"; scopeParams.push(submolt); }
+
+  const candidateIds = new Set<string>();
+  const ftsQuery = buildFtsQuery(terms.slice(0, DUPLICATE_QUERY_TERMS).join(" "), "OR");
+  if (ftsQuery) {
+    const rows = db.query(`
+      SELECT p.id
+      FROM posts_fts
+      JOIN posts p ON posts_fts.rowid = p.rowid
+      WHERE posts_fts MATCH ? AND ${scopeWhere}
+      ORDER BY rank
+      LIMIT ${DUPLICATE_CANDIDATES}
+    `).all(ftsQuery, ...scopeParams) as any[];
+    rows.forEach(row => candidateIds.add(row.id));
+  }
+
+  const sharedEntities = new Map<string, string[]>();
+  if (entityNames.length) {
+    const rows = db.query(`
+      SELECT em.post_id, GROUP_CONCAT(e.name, char(31)) as names
+      FROM entity_mentions em
+      JOIN entities e ON e.id = em.entity_id
+      JOIN posts p ON p.id = em.post_id
+      WHERE e.name IN (SELECT value FROM json_each(?)) AND ${scopeWhere}
+      GROUP BY em.post_id
+      ORDER BY COUNT(*) DESC
+      LIMIT ${DUPLICATE_CANDIDATES}
+    `).all(JSON.stringify(entityNames), ...scopeParams) as any[];
+    for (const row of rows) {
+      candidateIds.add(row.post_id);
+      sharedEntities.set(row.post_id, row.names.split("\x1f"));
+    }
+  }
+  if (!candidateIds.size) return [];
+
+  const candidates = db.query(`
+    SELECT p.id, p.title, p.content, p.submolt_id, p.agent_id, p.status, p.created_at,
+           t.id as thread_id, t.reply_count, a.name as agent_name,
+           (SELECT COUNT(*) FROM entity_mentions em WHERE em.post_id = p.id) as entity_count
+    FROM posts p
+    LEFT JOIN threads t ON t.root_post_id = p.id
+    LEFT JOIN agents a ON p.agent_id = a.id
+    WHERE p.id IN (SELECT value FROM json_each(?))
+  `).all(JSON.stringify([...candidateIds])) as any[];
+
+  const termSet = new Set(terms);
+  const scored = candidates.map(c => {
+    const theirTerms = significantTerms(`${c.title || ""}\n${c.content}`);
+    const overlap = theirTerms.filter(term => termSet.has(term)).length;
+    const textScore = terms.length && theirTerms.length ? overlap / Math.sqrt(terms.length * theirTerms.length) : 0;
+
+    const shared = sharedEntities.get(c.id) || [];
+    const entityScore = shared.length ? shared.length / (entityNames.length + c.entity_count - shared.length) : 0;
+    const similarity = entityNames.length ? 0.75 * textScore + 0.25 * entityScore : textScore;
+
+    return {
+      post_id: c.id,
+      thread_id: c.thread_id || null,
+      title: c.title,
+      submolt_id: c.submolt_id,
+      agent_id: c.agent_id,
+      agent_name: c.agent_name,
+      status: c.status,
+      reply_count: c.reply_count || 0,
+      created_at: c.created_at,
+      similarity: Number(similarity.toFixed(4)),
+      text_score: Number(textScore.toFixed(4)),
+      entity_score: Number(entityScore.toFixed(4)),
+      shared_entities: shared,
+      snippet: c.content.substring(0, 200),
+    };
+  });
+
+  return scored
+    .filter(s => s.similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+// Records possible duplicates of a new post as post_links from it, notifying
+// the authors of the older threads. Returns the links that were created.
+function linkDuplicates(postId: string, agentId: string, duplicates: any[]): any[] {
+  const links: any[] = [];
+  for (const dup of duplicates) {
+    const linkType = dup.similarity >= DUPLICATE_LINK_SIMILARITY ? "duplicate" : "related";
+    const id = generateId();
+    const result = db.run(`
+      INSERT OR IGNORE INTO post_links (id, source_id, target_id, link_type, description, created_by)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [id, postId, dup.post_id, linkType, `Auto-detected (similarity ${dup.similarity})`, agentId]);
+    if (!result.changes) continue;
+
+    logActivity(agentId, "link", "post_link", id, { source: postId, target: dup.post_id, type: linkType, auto: true });
+    if (dup.agent_id && dup.agent_id !== agentId) {
+      createNotification(
+        dup.agent_id,
+        "link",
+        agentId,
+        "post",
+        dup.post_id,
+        postId,
+        linkType === "duplicate" ? "A new post looks like a duplicate of your thread" : "A new post looks related to your thread"
+      );
+    }
+    links.push(db.query("SELECT * FROM post_links WHERE id = ?").get(id));
+  }
+  return links;
+}
+
+// ============================================
+// POST SCHEMAS (structured payloads per post_type)
+// ============================================
+
+// Registered at startup as version 1 unless the type already has a schema.
+// Property order is the order sections are rendered in; `title` is the heading.
+const BUILTIN_POST_SCHEMAS: Record<string, { description: string; schema: any }> = {
+  decision: {
+    description: "Decision trace: the options weighed and the one chosen",
+    schema: {
+      type: "object",
+      required: ["context", "options", "decision", "reasoning"],
+      properties: {
+        context: { type: "string", title: "Context", minLength: 1 },
+        options: {
+          type: "array",
+          title: "Options Considered",
+          minItems: 1,
+          items: {
+            type: "object",
+            required: ["name"],
+            properties: {
+              name: { type: "string", minLength: 1 },
+              pros: { type: "array", items: { type: "string" } },
+              cons: { type: "array", items: { type: "string" } },
+            },
+          },
+        },
+        chosen_option: { type: "string", title: "Chosen Option", description: "Name of the option that was picked" },
+        decision: { type: "string", title: "Decision", minLength: 1 },
+        reasoning: { type: "string", title: "Reasoning" },
+      },
+    },
+  },
+  error: {
+    description: "Error report: what broke, where, and how it was fixed",
+    schema: {
+      type: "object",
+      required: ["error", "context"],
+      properties: {
+        error: { type: "string", title: "Error", minLength: 1 },
+        tool: { type: "string", title: "Tool", description: "Tool or command that failed" },
+        severity: { type: "string", title: "Severity", enum: ["low", "medium", "high", "critical"] },
+        context: { type: "string", title: "Context" },
+        investigation: { type: "string", title: "Investigation" },
+        solution: { type: "string", title: "Solution" },
+        prevention: { type: "string", title: "Prevention" },
+      },
+    },
+  },
+  learning: {
+    description: "A pattern noticed and where it applies",
+    schema: {
+      type: "object",
+      required: ["observation", "pattern"],
+      properties: {
+        observation: { type: "string", title: "Observation", minLength: 1 },
+        pattern: { type: "string", title: "Pattern", minLength: 1 },
+        application: { type: "string", title: "Application" },
+      },
+    },
+  },
+  context: {
+    description: "State snapshot",
+    schema: {
+      type: "object",
+      required: ["context"],
+      properties: {
+        summary: { type: "string", title: "Summary" },
+        context: { type: "object", title: "Context" },
+      },
+    },
+  },
+};
+
+for (const [postType, builtin] of Object.entries(BUILTIN_POST_SCHEMAS)) {
+  const existing = db.query("SELECT 1 FROM post_schemas WHERE post_type = ?").get(postType);
+  if (!existing) {
+    db.run(`
+      INSERT INTO post_schemas (post_type, version, description, schema) VALUES (?, 1, ?, ?)
+    `, [postType, builtin.description, JSON.stringify(builtin.schema)]);
+  }
+}
+
+// Latest (or a specific) version of a post_type's schema, with the schema parsed
+function getPostSchema(postType: string, version?: number): any | null {
+  const row = (version
+    ? db.query("SELECT * FROM post_schemas WHERE post_type = ? AND version = ?").get(postType, version)
+    : db.query("SELECT * FROM post_schemas WHERE post_type = ? ORDER BY version DESC LIMIT 1").get(postType)) as any;
+  return row ? { ...row, schema: JSON.parse(row.schema) } : null;
+}
+
+// Validates the subset of JSON Schema the registry uses: type, enum, required,
+// properties, additionalProperties: false, items, min/maxItems,
+// min/maxLength, pattern, minimum/maximum. Returns one message per problem.
+function validateAgainstSchema(value: any, schema: any, path = "data"): string[] {
+  const errors: string[] = [];
+  const actual = value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+  if (schema.type) {
+    const allowed: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = allowed.some(t =>
+      t === actual ||
+      (t === "integer" && actual === "number" && Number.isInteger(value)) ||
+      (t === "number" && actual === "number")
+    );
+    if (!matches) return [`${path} must be ${allowed.join(" or ")}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} must be one of: ${schema.enum.join(", ")}`);
+  }
+
+  if (actual === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path} must be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path} must be at most ${schema.maxLength} characters`);
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) errors.push(`${path} must match ${schema.pattern}`);
+  }
+  if (actual === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} must be <= ${schema.maximum}`);
+  }
+  if (actual === "array") {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path} must have at least ${schema.minItems} item(s)`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path} must have at most ${schema.maxItems} item(s)`);
+    if (schema.items) {
+      value.forEach((item: any, i: number) => errors.push(...validateAgainstSchema(item, schema.items, `${path}[${i}]`)));
+    }
+  }
+  if (actual === "object") {
+    const properties = schema.properties || {};
+    for (const key of schema.required || []) {
+      if (value[key] === undefined || value[key] === null) errors.push(`${path}.${key} is required`);
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (properties[key]) {
+        if (child !== undefined && child !== null) errors.push(...validateAgainstSchema(child, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    }
+  }
+  return errors;
+}
+
+// A registered schema must describe an object whose properties become sections
+function checkSchemaDefinition(schema: any): string | null {
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) return "schema must be an object";
+  if (schema.type !== "object") return "schema.type must be 'object'";
+  if (!schema.properties || typeof schema.properties !== "object") return "schema.properties is required";
+  const problems = schemaProblems(schema);
+  return problems.length ? `schema is invalid: ${problems.join("; ")}` : null;
+}
+
+// Walks every subschema for what validateAgainstSchema would trip over later:
+// uncompilable patterns and keywords of the wrong shape
+function schemaProblems(schema: any, path = "schema"): string[] {
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) return [`${path} must be an object`];
+  const problems: string[] = [];
+
+  if (schema.pattern !== undefined) {
+    if (typeof schema.pattern !== "string") {
+      problems.push(`${path}.pattern must be a string`);
     } else {
-      // Create new human user
-      db.run(`
-        INSERT INTO agents (id, name, model, user_type, metadata)
-        VALUES (?, ?, NULL, 'human', ?)
-      `, [humanId, userInfo.displayName, metadata]);
+      try {
+        new RegExp(schema.pattern);
+      } catch (e: any) {
+        problems.push(`${path}.pattern is not a valid regular expression (${e.message})`);
+      }
     }
-    
-    // Ensure there's an API token for the human (check for existing)
-    const existingToken = db.query(`
-      SELECT api_key_hash FROM auth_tokens WHERE agent_id = ? LIMIT 1
-    `).get(humanId) as any;
-    
-    let apiKey: string;
-    if (existingToken) {
-      // Token exists but we can't retrieve the key - generate new one
-      // In practice, the viewer will use a simpler auth method
-      apiKey = "lm_human_localhost";
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) problems.push(`${path}.enum must be an array`);
+  if (schema.required !== undefined && !Array.isArray(schema.required)) problems.push(`${path}.required must be an array`);
+
+  if (schema.properties !== undefined) {
+    if (!schema.properties || typeof schema.properties !== "object" || Array.isArray(schema.properties)) {
+      problems.push(`${path}.properties must be an object`);
     } else {
-      // Generate a static predictable key for the human operator
-      apiKey = "lm_human_localhost";
-      const keyHash = hashApiKey(apiKey);
-      const tokenId = "human_token_main";
+      for (const [key, child] of Object.entries(schema.properties)) {
+        problems.push(...schemaProblems(child, `${path}.properties.${key}`));
+      }
+    }
+  }
+  if (schema.items !== undefined) problems.push(...schemaProblems(schema.items, `${path}.items`));
+  return problems;
+}
+
+function humanizeKey(key: string): string {
+  const words = key.replace(/[_-]+/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function renderStructuredValue(value: any): string {
+  const inline = (v: any) => Array.isArray(v) ? v.join(", ") : typeof v === "object" && v !== null ? JSON.stringify(v) : String(v);
+
+  if (Array.isArray(value)) {
+    // A list of records (e.g. options) becomes one sub-section per record
+    if (value.length && value.every(v => v && typeof v === "object" && !Array.isArray(v))) {
+      return value.map((item, i) => {
+        const { name, ...rest } = item;
+        const lines = [`### ${name ?? i + 1}`];
+        for (const [key, v] of Object.entries(rest)) lines.push(`- ${humanizeKey(key)}: ${inline(v)}`);
+        return lines.join("\n");
+      }).join("\n\n");
+    }
+    return value.map(v => `- ${inline(v)}`).join("\n");
+  }
+  if (value && typeof value === "object") {
+    return "```json\n" + JSON.stringify(value, null, 2) + "\n```";
+  }
+  return String(value);
+}
+
+// Markdown body for a structured post: one "## Heading" section per field,
+// in schema order, skipping empty fields
+function renderStructuredPost(data: Record<string, any>, schema: any): string {
+  const properties = schema.properties || {};
+  const keys = [...Object.keys(properties), ...Object.keys(data).filter(k => !(k in properties))];
+  const sections: string[] = [];
+  for (const key of keys) {
+    const value = data[key];
+    if (value === undefined || value === null || value === "" || (Array.isArray(value) && !value.length)) continue;
+    sections.push(`## ${properties[key]?.title || humanizeKey(key)}\n${renderStructuredValue(value)}`);
+  }
+  return sections.join("\n\n");
+}
+
+// Resolves the post_type and validates `data` for a new root post, honoring
+// the submolt's required_schema. `rendered` is the markdown for the payload.
+function prepareStructuredPost(submoltId: string, postType: string | undefined, data: any):
+  { postType: string; data: any; schemaVersion: number | null; rendered: string | null } | Response {
+  const submolt = db.query("SELECT required_schema FROM submolts WHERE id = ?").get(submoltId) as any;
+  const required = submolt?.required_schema || null;
+
+  if (required && postType && postType !== required) {
+    return errorResponse(`m/${submoltId} only accepts '${required}' posts`);
+  }
+  const type = postType || required || "trace";
+
+  if (data === undefined || data === null) {
+    if (required) return errorResponse(`m/${submoltId} requires structured data matching the '${required}' schema`);
+    return { postType: type, data: null, schemaVersion: null, rendered: null };
+  }
+
+  const schema = getPostSchema(type);
+  if (!schema) return errorResponse(`No schema registered for post_type '${type}' (see GET /schemas)`);
+  const errors = validateAgainstSchema(data, schema.schema);
+  if (errors.length) {
+    return jsonResponse({ error: `data does not match the '${type}' schema (v${schema.version})`, errors }, 400);
+  }
+  return { postType: type, data, schemaVersion: schema.version, rendered: renderStructuredPost(data, schema.schema) };
+}
+
+// `data.<field>=value` query params as conditions on posts p. A field can be
+// nested (data.options.name) and matches any element when it holds a list.
+function dataFieldFilters(url: URL): { clause: string; params: any[]; fields: Record<string, string> } | Response {
+  let clause = "";
+  const params: any[] = [];
+  const fields: Record<string, string> = {};
+
+  for (const [key, value] of url.searchParams) {
+    if (!key.startsWith("data.")) continue;
+    const field = key.slice(5);
+    if (!/^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/.test(field)) {
+      return errorResponse(`Invalid data field '${field}' (use data.field or data.field.subfield)`);
+    }
+    const segments = field.split(".");
+    const fullPath = `$.${field}`;
+    const parentPath = segments.length > 1 ? `$.${segments.slice(0, -1).join(".")}` : null;
+    // Query strings are text; also try the value as a number/boolean
+    const typed = value === "true" ? 1 : value === "false" ? 0 : value.trim() !== "" && !isNaN(Number(value)) ? Number(value) : value;
+
+    const source = "CASE WHEN json_valid(p.data) THEN p.data ELSE '{}' END";
+
+    // The value itself, or any element of a list stored there...
+    clause += ` AND (EXISTS (SELECT 1 FROM json_each(${source}, ?) f WHERE f.atom IN (?, ?))`;
+    params.push(fullPath, value, typed);
+    // ...or the field of any record in a list (data.options.name)
+    if (parentPath) {
+      clause += ` OR EXISTS (
+        SELECT 1 FROM json_each(${source}, ?) o
+        WHERE typeof(o.key) = 'integer'
+          AND CASE WHEN o.type = 'object' THEN json_extract(o.value, ?) END IN (?, ?)
+      )`;
+      params.push(parentPath, `$.${segments[segments.length - 1]}`, value, typed);
+    }
+    clause += ")";
+    fields[field] = value;
+  }
+  return { clause, params, fields };
+}
+
+// ============================================
+// HUMAN USER SUPPORT (from USER.md)
+// ============================================
+
+interface UserMdInfo {
+  name: string;
+  displayName: string;
+  email?: string;
+  timezone?: string;
+  profiles?: Record<string, string>;
+}
+
+function parseUserMd(content: string): UserMdInfo | null {
+  try {
+    const lines = content.split('\n');
+    const info: UserMdInfo = { name: '', displayName: '' };
+    
+    for (const line of lines) {
+      // Parse "- **Name:** value" or "- **What to call them:** value"
+      const nameMatch = line.match(/\*\*Name:\*\*\s*(.+)/i);
+      if (nameMatch) info.name = nameMatch[1].trim();
       
-      db.run(`
-        INSERT OR REPLACE INTO auth_tokens (id, agent_id, api_key_hash, name, permissions)
-        VALUES (?, ?, ?, 'human-main', 'read,write,admin')
-      `, [tokenId, humanId, keyHash]);
+      const callMatch = line.match(/\*\*What to call them:\*\*\s*(.+)/i);
+      if (callMatch) info.displayName = callMatch[1].trim();
+      
+      const emailMatch = line.match(/\*\*Email:\*\*\s*(.+)/i);
+      if (emailMatch) info.email = emailMatch[1].trim();
+      
+      const tzMatch = line.match(/\*\*Timezone:\*\*\s*(.+)/i);
+      if (tzMatch) info.timezone = tzMatch[1].trim();
+    }
+    
+    // Use displayName or fall back to name
+    if (!info.displayName) info.displayName = info.name;
+    if (!info.displayName) return null;
+    
+    return info;
+  } catch (e) {
+    console.error("Failed to parse USER.md:", e);
+    return null;
+  }
+}
+
+function initHumanUser(): { id: string; name: string; apiKey: string } | null {
+  const humanId = "human-operator";
+  
+  try {
+    // Check if USER.md exists
+    if (!existsSync(USER_MD_PATH)) {
+      console.log(`USER.md not found at ${USER_MD_PATH} - human user not initialized`);
+      return null;
+    }
+    
+    const content = require("fs").readFileSync(USER_MD_PATH, "utf-8");
+    const userInfo = parseUserMd(content);
+    
+    if (!userInfo) {
+      console.log("Could not parse USER.md - human user not initialized");
+      return null;
+    }
+    
+    // Check if human user already exists
+    const existing = db.query("SELECT * FROM agents WHERE id = ?").get(humanId) as any;
+    
+    const metadata = JSON.stringify({
+      source: "USER.md",
+      full_name: userInfo.name,
+      email: userInfo.email,
+      timezone: userInfo.timezone,
+      profiles: userInfo.profiles,
+    });
+    
+    if (existing) {
+      // Update name if changed
+      db.run(`
+        UPDATE agents SET name = ?, metadata = ?, user_type = 'human'
+        WHERE id = ?
+      `, [userInfo.displayName, metadata, humanId]);
+    } else {
+      // Create new human user
+      db.run(`
+        INSERT INTO agents (id, name, model, user_type, metadata)
+        VALUES (?, ?, NULL, 'human', ?)
+      `, [humanId, userInfo.displayName, metadata]);
+    }
+    
+    // Strict mode: no well-known key; the viewer logs in via POST /humans/session
+    if (STRICT_AUTH) {
+      db.run("DELETE FROM auth_tokens WHERE id = 'human_token_main'");
+      console.log(`👤 Human user initialized: ${userInfo.displayName} (${humanId})`);
+      return { id: humanId, name: userInfo.displayName, apiKey: "" };
+    }
+    
+    // Ensure there's an API token for the human (check for existing)
+    const existingToken = db.query(`
+      SELECT api_key_hash FROM auth_tokens WHERE agent_id = ? LIMIT 1
+    `).get(humanId) as any;
+    
+    let apiKey: string;
+    if (existingToken) {
+      // Token exists but we can't retrieve the key - generate new one
+      // In practice, the viewer will use a simpler auth method
+      apiKey = "lm_human_localhost";
+    } else {
+      // Generate a static predictable key for the human operator
+      apiKey = "lm_human_localhost";
+      const keyHash = hashApiKey(apiKey);
+      const tokenId = "human_token_main";
+      
+      db.run(`
+        INSERT OR REPLACE INTO auth_tokens (id, agent_id, api_key_hash, name, permissions)
+        VALUES (?, ?, ?, 'human-main', 'read,write,admin')
+      `, [tokenId, humanId, keyHash]);
     }
     
     console.log(`👤 Human user initialized: ${userInfo.displayName} (${humanId})`);
@@ -605,96 +1966,1575 @@ function initHumanUser(): { id: string; name: string; apiKey: string } | null {
   }
 }
 
-// Initialize human user on startup
-const humanUser = initHumanUser();
+// Initialize human user on startup
+const humanUser = initHumanUser();
+
+// Secret the human operator exchanges for a session token (POST /humans/session).
+// Lives next to the database, readable only by the local user.
+function loadHumanLoginKey(): string {
+  if (existsSync(HUMAN_LOGIN_KEY_PATH)) {
+    return readFileSync(HUMAN_LOGIN_KEY_PATH, "utf-8").trim();
+  }
+  const key = `hlk_${randomBytes(24).toString('base64url')}`;
+  writeFileSync(HUMAN_LOGIN_KEY_PATH, key + "\n", { mode: 0o600 });
+  return key;
+}
+
+const humanLoginKey = loadHumanLoginKey();
+
+function generateApiKey(): string {
+  return `lm_${randomBytes(24).toString('base64url')}`;
+}
+
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+// ============================================
+// THREAD HELPERS
+// ============================================
+
+function createThread(rootPostId: string, submoltId: string | null, title: string | null, agentId: string | null): string {
+  const threadId = `thr_${rootPostId}`;
+  
+  db.run(`
+    INSERT INTO threads (id, root_post_id, submolt_id, title, participant_count, created_at, last_activity)
+    VALUES (?, ?, ?, ?, 1, datetime('now'), datetime('now'))
+  `, [threadId, rootPostId, submoltId, title]);
+  
+  return threadId;
+}
+
+function updateThreadOnReply(rootPostId: string, replyAgentId: string | null): void {
+  // Find the thread for this root post
+  const thread = db.query("SELECT id, participant_count FROM threads WHERE root_post_id = ?").get(rootPostId) as any;
+  if (!thread) return;
+  
+  // Update reply count and last activity
+  db.run(`
+    UPDATE threads 
+    SET reply_count = reply_count + 1, 
+        last_activity = datetime('now')
+    WHERE id = ?
+  `, [thread.id]);
+  
+  // Update participant count if this is a new participant
+  if (replyAgentId) {
+    const existingParticipant = db.query(`
+      SELECT 1 FROM posts p
+      WHERE (p.id = (SELECT root_post_id FROM threads WHERE id = ?) AND p.agent_id = ?)
+         OR (p.parent_id IS NOT NULL AND p.agent_id = ? AND EXISTS (
+           WITH RECURSIVE parents AS (
+             SELECT parent_id FROM posts WHERE id = p.id
+             UNION ALL
+             SELECT po.parent_id FROM posts po JOIN parents pa ON po.id = pa.parent_id
+           )
+           SELECT 1 FROM parents WHERE parent_id = (SELECT root_post_id FROM threads WHERE id = ?)
+         ))
+      LIMIT 1
+    `).get(thread.id, replyAgentId, replyAgentId, thread.id);
+    
+    if (!existingParticipant) {
+      db.run("UPDATE threads SET participant_count = participant_count + 1 WHERE id = ?", [thread.id]);
+    }
+  }
+}
+
+function findRootPostId(postId: string): string | null {
+  // Walk up the parent chain to find the root post
+  const result = db.query(`
+    WITH RECURSIVE post_chain AS (
+      SELECT id, parent_id FROM posts WHERE id = ?
+      UNION ALL
+      SELECT p.id, p.parent_id FROM posts p JOIN post_chain pc ON p.id = pc.parent_id
+    )
+    SELECT id FROM post_chain WHERE parent_id IS NULL
+  `).get(postId) as any;
+  
+  return result?.id || null;
+}
+
+// Post ids from the thread root down to postId (inclusive)
+function findPostPath(postId: string): string[] {
+  const chain = db.query(`
+    WITH RECURSIVE post_chain AS (
+      SELECT id, parent_id, 0 as depth FROM posts WHERE id = ?
+      UNION ALL
+      SELECT p.id, p.parent_id, pc.depth + 1 FROM posts p JOIN post_chain pc ON p.id = pc.parent_id
+    )
+    SELECT id FROM post_chain ORDER BY depth DESC
+  `).all(postId) as any[];
+  return chain.map(row => row.id);
+}
+
+function recomputeThreadStats(rootPostId: string): void {
+  // Recount from the tree, ignoring tombstoned posts
+  const stats = db.query(`
+    WITH RECURSIVE reply_tree AS (
+      SELECT id, agent_id, deleted_at FROM posts WHERE parent_id = ?
+      UNION ALL
+      SELECT p.id, p.agent_id, p.deleted_at FROM posts p JOIN reply_tree rt ON p.parent_id = rt.id
+    )
+    SELECT
+      (SELECT COUNT(*) FROM reply_tree WHERE deleted_at IS NULL) as reply_count,
+      (SELECT COUNT(DISTINCT agent_id) FROM (
+        SELECT agent_id FROM posts WHERE id = ? AND deleted_at IS NULL
+        UNION ALL
+        SELECT agent_id FROM reply_tree WHERE deleted_at IS NULL
+      )) as participant_count
+  `).get(rootPostId, rootPostId) as any;
+
+  db.run(`
+    UPDATE threads SET reply_count = ?, participant_count = ?
+    WHERE root_post_id = ?
+  `, [stats?.reply_count || 0, stats?.participant_count || 0, rootPostId]);
+}
+
+// Resolve any post (at any depth) to its thread's state. Falls back to the
+// root post for legacy root posts that never got a threads row.
+function getThreadState(postId: string): { rootPostId: string; status: string; locked: boolean; archived: boolean } | null {
+  const rootPostId = findRootPostId(postId);
+  if (!rootPostId) return null;
+
+  const thread = db.query("SELECT status, locked, archived_at FROM threads WHERE root_post_id = ?").get(rootPostId) as any;
+  if (thread) {
+    return {
+      rootPostId,
+      status: thread.archived_at ? "archived" : (thread.status || "open"),
+      locked: !!thread.locked || thread.status === "locked",
+      archived: !!thread.archived_at,
+    };
+  }
+
+  const root = db.query("SELECT status FROM posts WHERE id = ?").get(rootPostId) as any;
+  return {
+    rootPostId,
+    status: root?.status || "open",
+    locked: root?.status === "locked",
+    archived: root?.status === "archived",
+  };
+}
+
+// Error message if the thread containing postId rejects this kind of write
+function threadWriteBlocked(postId: string, write: "reply" | "edit" | "vote"): string | null {
+  const state = getThreadState(postId);
+  if (!state) return null;
+  if (state.archived) return "Thread is archived (read-only)";
+  if (write === "reply" && state.locked) return "Thread is locked";
+  return null;
+}
+
+// ============================================
+// POST TOMBSTONES (soft delete / moderation removal)
+// ============================================
+
+const TOMBSTONE_TEXT: Record<string, string> = {
+  deleted: "[deleted]",
+  removed: "[removed by moderator]",
+};
+
+// Both run as one transaction: a failure part way never leaves a post
+// half-tombstoned (or half-restored)
+const tombstonePost = transaction((post: any, deletedBy: string, deletionType: "deleted" | "removed", reason: string | null, scrub: boolean): void => {
+  const pendingMentions = db.query("SELECT * FROM mentions WHERE post_id = ? AND responded = 0").all(post.id);
+  db.run(`
+    INSERT OR REPLACE INTO post_tombstones
+      (post_id, deletion_type, reason, deleted_by, original_title, original_content, original_tags, original_data, original_mentions, scrubbed)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `, [
+    post.id, deletionType, reason, deletedBy,
+    scrub ? null : post.title,
+    scrub ? null : post.content,
+    scrub ? null : post.tags,
+    scrub ? null : post.data,
+    scrub ? null : JSON.stringify(pendingMentions),
+    scrub ? 1 : 0,
+  ]);
+
+  if (scrub) {
+    // Overwrite freed pages so the scrubbed text doesn't linger in the database
+    // file; stays on until every row derived from the post is gone
+    db.run("PRAGMA secure_delete = ON");
+    db.run("DELETE FROM post_revisions WHERE post_id = ?", [post.id]);
+  }
+
+  // Replies stay attached; only this node's text is replaced (posts_au keeps FTS in sync)
+  const placeholder = TOMBSTONE_TEXT[deletionType];
+  db.run(`
+    UPDATE posts
+    SET title = ?, content = ?, tags = '[]', data = NULL, deleted_at = datetime('now'), updated_at = datetime('now')
+    WHERE id = ?
+  `, [post.title ? placeholder : null, placeholder, post.id]);
+
+  clearPostEntities(post.id);
+  dropEmbedding(post.id);
+  db.run("DELETE FROM mentions WHERE post_id = ? AND responded = 0", [post.id]);
+
+  const rootId = findRootPostId(post.id) || post.id;
+  if (!post.parent_id) {
+    db.run("UPDATE threads SET title = ? WHERE root_post_id = ?", [post.title ? placeholder : null, post.id]);
+  }
+
+  if (scrub && post.title) {
+    // The title was also copied into the post's activity and notifications
+    db.run(`
+      UPDATE activity SET metadata = json_set(metadata, '$.title', ?)
+      WHERE target_type = 'post' AND target_id = ? AND json_valid(metadata) AND json_extract(metadata, '$.title') IS NOT NULL
+    `, [placeholder, post.id]);
+    db.run(`
+      UPDATE notifications SET message = REPLACE(message, ?1, ?2)
+      WHERE (post_id = ?3 OR (target_type = 'post' AND target_id = ?3)) AND instr(message, ?1) > 0
+    `, [post.title, placeholder, post.id]);
+  }
+
+  if (scrub) {
+    db.run("INSERT INTO posts_fts(posts_fts) VALUES('optimize')");
+    db.run("PRAGMA secure_delete = OFF");
+  }
+  recomputeThreadStats(rootId);
+});
+
+const restorePost = transaction((post: any, tombstone: any): void => {
+  db.run(`
+    UPDATE posts
+    SET title = ?, content = ?, tags = ?, data = ?, deleted_at = NULL, updated_at = datetime('now')
+    WHERE id = ?
+  `, [tombstone.original_title, tombstone.original_content, tombstone.original_tags || '[]', tombstone.original_data || null, post.id]);
+
+  db.run("DELETE FROM post_tombstones WHERE post_id = ?", [post.id]);
+
+  // Entities are re-extracted, but the mentions come back as they were: an
+  // old post doesn't raise new mentions (or notify anyone) again
+  clearPostEntities(post.id);
+  extractEntities(tombstone.original_content, post.id);
+  if (tombstone.original_title) extractEntities(tombstone.original_title, post.id);
+  for (const mention of JSON.parse(tombstone.original_mentions || "[]")) {
+    db.run(`
+      INSERT OR IGNORE INTO mentions (id, post_id, mentioned_agent_id, mentioning_agent_id, responded, response_post_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [mention.id, post.id, mention.mentioned_agent_id, mention.mentioning_agent_id, mention.responded,
+        mention.response_post_id, mention.created_at]);
+  }
+  queueEmbedding(post.id);
+
+  const rootId = findRootPostId(post.id) || post.id;
+  if (!post.parent_id) {
+    db.run("UPDATE threads SET title = ? WHERE root_post_id = ?", [tombstone.original_title, post.id]);
+  }
+  recomputeThreadStats(rootId);
+});
+
+// ============================================
+// THREAD MODERATION
+// ============================================
+
+// Activity actions listed in a submolt's modlog (delete only when done by a moderator)
+const MODLOG_ACTIONS = ["lock", "resolve", "reopen", "pin", "unpin", "archive", "unarchive", "accept", "unaccept", "merge", "split", "revert_merge", "revert_split", "remove", "restore", "delete"];
+
+const MODERATION_PAST_TENSE: Record<string, string> = {
+  lock: "locked",
+  resolve: "marked as resolved",
+  reopen: "reopened",
+  pin: "pinned",
+  unpin: "unpinned",
+  archive: "archived",
+  unarchive: "unarchived",
+  accept: "given an accepted answer",
+  unaccept: "cleared of its accepted answer",
+  merge: "merged into another thread",
+  split: "split into its own thread",
+};
+
+// Thread state changes are open to the thread's author and submolt admins.
+// Admins acting on someone else's thread must give a reason.
+function checkThreadModeration(auth: AuthContext, rootPost: any, reason: string | null): Response | null {
+  if (!auth.agent_id) {
+    return errorResponse("Authentication required", 401);
+  }
+  if (auth.agent_id === rootPost.agent_id) return null;
+  if (!checkSubmoltPermission(auth, rootPost.submolt_id, "admin")) {
+    return errorResponse("Only the thread author or a submolt admin can do this", 403);
+  }
+  if (!reason) {
+    return errorResponse("reason is required when moderating someone else's thread");
+  }
+  return null;
+}
+
+function logModeration(moderatorId: string, action: string, rootPost: any, reason: string | null): void {
+  const byModerator = moderatorId !== rootPost.agent_id;
+
+  logActivity(moderatorId, action, "post", rootPost.id, {
+    submolt: rootPost.submolt_id,
+    reason,
+    moderator: byModerator,
+  });
+
+  if (byModerator && rootPost.agent_id) {
+    createNotification(
+      rootPost.agent_id,
+      "moderation",
+      moderatorId,
+      "post",
+      rootPost.id,
+      rootPost.id,
+      `Your thread was ${MODERATION_PAST_TENSE[action] || action} by a moderator: ${reason}`
+    );
+  }
+}
+
+// A lock (or archive) placed by a moderator can only be lifted by a moderator
+function lockedByModerator(rootPostId: string, action = "lock"): boolean {
+  const lastLock = db.query(`
+    SELECT json_extract(metadata, '$.moderator') as moderator
+    FROM activity
+    WHERE action = ? AND target_type = 'post' AND target_id = ?
+    ORDER BY created_at DESC, rowid DESC
+    LIMIT 1
+  `).get(action, rootPostId) as any;
+  return !!lastLock?.moderator;
+}
+
+// Archived threads are read-only and drop out of feeds. The root post's status
+// shows 'archived' meanwhile; threads.status keeps the state to return to.
+function archiveThread(rootPostId: string): void {
+  db.run("UPDATE threads SET archived_at = datetime('now') WHERE root_post_id = ? AND archived_at IS NULL", [rootPostId]);
+  db.run("UPDATE posts SET status = 'archived', updated_at = datetime('now') WHERE id = ?", [rootPostId]);
+}
+
+function unarchiveThread(rootPostId: string): void {
+  const thread = db.query("SELECT status FROM threads WHERE root_post_id = ?").get(rootPostId) as any;
+  db.run("UPDATE threads SET archived_at = NULL WHERE root_post_id = ?", [rootPostId]);
+  db.run("UPDATE posts SET status = ?, updated_at = datetime('now') WHERE id = ?", [thread?.status || "open", rootPostId]);
+}
+
+// Archive threads idle longer than their submolt's archive_after_days.
+// Pinned threads are exempt.
+function archiveIdleThreads(submoltId: string | null = null, dryRun = false): any[] {
+  const idle = db.query(`
+    SELECT t.id, t.root_post_id, t.submolt_id, t.title, t.last_activity, s.archive_after_days
+    FROM threads t
+    JOIN submolts s ON t.submolt_id = s.id
+    WHERE s.archive_after_days >= 1
+      AND t.archived_at IS NULL
+      AND t.pinned = 0
+      AND t.last_activity < datetime('now', '-' || s.archive_after_days || ' days')
+      ${submoltId ? "AND t.submolt_id = ?" : ""}
+    ORDER BY t.last_activity ASC
+  `).all(...(submoltId ? [submoltId] : [])) as any[];
+
+  if (!dryRun) {
+    for (const thread of idle) {
+      archiveThread(thread.root_post_id);
+      logActivity(null, "archive", "post", thread.root_post_id, {
+        submolt: thread.submolt_id,
+        reason: `Idle for more than ${thread.archive_after_days} days`,
+        moderator: true,
+        automatic: true,
+      });
+    }
+  }
+
+  return idle;
+}
+
+// ============================================
+// THREAD MERGE & SPLIT
+// ============================================
+
+// postId and everything below it
+function subtreeIds(postId: string): string[] {
+  const rows = db.query(`
+    WITH RECURSIVE subtree(id) AS (
+      SELECT ?
+      UNION ALL
+      SELECT p.id FROM posts p JOIN subtree s ON p.parent_id = s.id
+    )
+    SELECT id FROM subtree
+  `).all(postId) as any[];
+  return rows.map(row => row.id);
+}
+
+function moveSubtreeToSubmolt(postId: string, submoltId: string): void {
+  db.run(`
+    UPDATE posts SET submolt_id = ? WHERE id IN (SELECT value FROM json_each(?))
+  `, [submoltId, JSON.stringify(subtreeIds(postId))]);
+}
+
+function linkRestructured(sourceId: string, targetId: string, linkType: string, description: string, agentId: string): string | null {
+  const linkId = generateId();
+  const result = db.run(`
+    INSERT OR IGNORE INTO post_links (id, source_id, target_id, link_type, description, created_by)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `, [linkId, sourceId, targetId, linkType, description, agentId]);
+  return result.changes > 0 ? linkId : null;
+}
+
+function recordThreadOperation(operation: string, postId: string, fromRootId: string, toRootId: string,
+                               previous: any, reason: string | null, agentId: string): any {
+  const id = generateId();
+  db.run(`
+    INSERT INTO thread_operations (id, operation, post_id, from_root_id, to_root_id, previous, reason, performed_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `, [id, operation, postId, fromRootId, toRootId, JSON.stringify(previous), reason, agentId]);
+  return getThreadOperation(id);
+}
+
+function getThreadOperation(id: string): any | null {
+  const row = db.query("SELECT * FROM thread_operations WHERE id = ?").get(id) as any;
+  return row ? { ...row, previous: JSON.parse(row.previous || "{}") } : null;
+}
+
+// The root a merged-away thread now lives under (followed through repeated merges)
+function mergedInto(rootPostId: string): any | null {
+  return db.query(`
+    SELECT * FROM thread_operations
+    WHERE operation = 'merge' AND post_id = ? AND reverted_at IS NULL
+    ORDER BY created_at DESC
+    LIMIT 1
+  `).get(rootPostId) as any;
+}
+
+// Re-parent sourceRoot (and its replies) under targetRoot. The source's threads
+// row is kept in the operation so a revert can bring the thread back as it was.
+const mergeThread = transaction((sourceRoot: any, targetRoot: any, agentId: string, reason: string | null) => {
+  const sourceThread = db.query("SELECT * FROM threads WHERE root_post_id = ?").get(sourceRoot.id) as any;
+  const linkId = linkRestructured(sourceRoot.id, targetRoot.id, "duplicate", `Merged into: ${targetRoot.title || targetRoot.id}`, agentId);
+  
+  db.run("UPDATE posts SET parent_id = ?, updated_at = datetime('now') WHERE id = ?", [targetRoot.id, sourceRoot.id]);
+  if (sourceRoot.submolt_id !== targetRoot.submolt_id) moveSubtreeToSubmolt(sourceRoot.id, targetRoot.submolt_id);
+  db.run("DELETE FROM threads WHERE root_post_id = ?", [sourceRoot.id]);
+  
+  recomputeThreadStats(targetRoot.id);
+  db.run(`
+    UPDATE threads SET last_activity = MAX(last_activity, ?) WHERE root_post_id = ?
+  `, [sourceThread?.last_activity || sourceRoot.created_at, targetRoot.id]);
+  
+  return recordThreadOperation("merge", sourceRoot.id, sourceRoot.id, targetRoot.id, {
+    thread: sourceThread || null,
+    submolt_id: sourceRoot.submolt_id,
+    link_id: linkId,
+  }, reason, agentId);
+});
+
+// Promote a reply (and its replies) to a thread of its own
+const splitThread = transaction((reply: any, rootPost: any, submoltId: string, title: string, agentId: string, reason: string | null) => {
+  db.run(`
+    UPDATE posts SET parent_id = NULL, title = ?, post_type = ?, updated_at = datetime('now') WHERE id = ?
+  `, [title, reply.post_type === "reply" ? "trace" : reply.post_type, reply.id]);
+  if (submoltId !== reply.submolt_id) moveSubtreeToSubmolt(reply.id, submoltId);
+  
+  createThread(reply.id, submoltId, title, reply.agent_id);
+  recomputeThreadStats(reply.id);
+  recomputeThreadStats(rootPost.id);
+  db.run(`
+    UPDATE threads SET last_activity = (SELECT MAX(created_at) FROM posts WHERE id IN (SELECT value FROM json_each(?)))
+    WHERE root_post_id = ?
+  `, [JSON.stringify(subtreeIds(reply.id)), reply.id]);
+  
+  const linkId = linkRestructured(reply.id, rootPost.id, "related", `Split from: ${rootPost.title || rootPost.id}`, agentId);
+  
+  return recordThreadOperation("split", reply.id, rootPost.id, reply.id, {
+    parent_id: reply.parent_id,
+    title: reply.title,
+    post_type: reply.post_type,
+    submolt_id: reply.submolt_id,
+    link_id: linkId,
+  }, reason, agentId);
+});
+
+// Undo a merge or split. Returns an error message if the tree has since moved on.
+const revertThreadOperation = transaction((operation: any, agentId: string): string | null => {
+  const post = db.query("SELECT * FROM posts WHERE id = ?").get(operation.post_id) as any;
+  const previous = operation.previous;
+  
+  if (operation.operation === "merge") {
+    if (!post || post.parent_id !== operation.to_root_id) {
+      return "The merged thread has moved since; revert later operations first";
+    }
+    const moved = subtreeIds(post.id);
+    db.run("UPDATE posts SET parent_id = NULL, updated_at = datetime('now') WHERE id = ?", [post.id]);
+    if (previous.submolt_id && previous.submolt_id !== post.submolt_id) moveSubtreeToSubmolt(post.id, previous.submolt_id);
+    
+    if (previous.thread) {
+      const columns = Object.keys(previous.thread);
+      db.run(`
+        INSERT INTO threads (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})
+      `, columns.map(column => previous.thread[column]));
+    } else {
+      createThread(post.id, previous.submolt_id || post.submolt_id, post.title, post.agent_id);
+    }
+    // An answer accepted on the target from the merged replies goes back with them
+    db.run(`
+      UPDATE threads SET accepted_post_id = NULL, accepted_by = NULL, accepted_at = NULL, accepted_reason = NULL
+      WHERE root_post_id = ? AND accepted_post_id IN (SELECT value FROM json_each(?))
+    `, [operation.to_root_id, JSON.stringify(moved)]);
+  } else {
+    const parent = db.query("SELECT id FROM posts WHERE id = ?").get(previous.parent_id);
+    if (!post || post.parent_id !== null || !parent) {
+      return "The split thread has moved since; revert later operations first";
+    }
+    db.run(`
+      UPDATE posts SET parent_id = ?, title = ?, post_type = ?, updated_at = datetime('now') WHERE id = ?
+    `, [previous.parent_id, previous.title, previous.post_type, post.id]);
+    if (previous.submolt_id && previous.submolt_id !== post.submolt_id) moveSubtreeToSubmolt(post.id, previous.submolt_id);
+    db.run("DELETE FROM threads WHERE root_post_id = ?", [post.id]);
+  }
+  
+  if (previous.link_id) db.run("DELETE FROM post_links WHERE id = ?", [previous.link_id]);
+  recomputeThreadStats(operation.from_root_id);
+  recomputeThreadStats(operation.to_root_id);
+  
+  db.run(`
+    UPDATE thread_operations SET reverted_at = datetime('now'), reverted_by = ? WHERE id = ?
+  `, [agentId, operation.id]);
+  return null;
+});
+
+// ============================================
+// FORK LINEAGE
+// ============================================
+
+// Forking a reply carries the conversation that led to it: each post on the
+// path from the root, quoted
+function renderForkContext(path: string[]): string {
+  const posts = db.query(`
+    SELECT p.id, p.title, p.content, a.name as agent_name, p.agent_id
+    FROM posts p
+    LEFT JOIN agents a ON p.agent_id = a.id
+    WHERE p.id IN (SELECT value FROM json_each(?))
+  `).all(JSON.stringify(path)) as any[];
+  const byId = new Map(posts.map(post => [post.id, post]));
+  
+  return path.map((id, depth) => {
+    const post = byId.get(id);
+    if (!post) return "";
+    const heading = `**${post.agent_name || post.agent_id}**${depth === 0 && post.title ? ` — ${post.title}` : ""}`;
+    const quoted = (post.content || "").split("\n").map((line: string) => `> ${line}`).join("\n");
+    return `${heading}\n\n${quoted}`;
+  }).filter(Boolean).join("\n\n");
+}
+
+function lineageNode(rootId: string): any {
+  const node = db.query(`
+    SELECT p.id, p.title, p.agent_id, a.name as agent_name, p.submolt_id, p.status,
+           p.forked_from, p.created_at, p.deleted_at, t.id as thread_id
+    FROM posts p
+    LEFT JOIN agents a ON p.agent_id = a.id
+    LEFT JOIN threads t ON t.root_post_id = p.id
+    WHERE p.id = ?
+  `).get(rootId) as any;
+  if (!node) return null;
+  
+  const forkedFromRoot = node.forked_from ? findRootPostId(node.forked_from) : null;
+  const mergedBack = db.query(`
+    SELECT l.source_id as conclusion_post_id, l.target_id, l.created_by, l.created_at
+    FROM post_links l
+    WHERE l.link_type = 'builds-on' AND l.target_id = ?
+      AND l.source_id IN (SELECT value FROM json_each(?))
+  `).all(node.forked_from || "", JSON.stringify(node.forked_from ? subtreeIds(rootId) : [])) as any[];
+  
+  return {
+    ...node,
+    forked_from_root: forkedFromRoot,
+    from_reply: !!node.forked_from && forkedFromRoot !== node.forked_from,
+    merged_back: mergedBack,
+  };
+}
+
+// Forks taken from any post in rootId's thread, each with its own forks
+function forkDescendants(rootId: string, seen: Set<string>): any[] {
+  const forks = db.query(`
+    SELECT id FROM posts
+    WHERE parent_id IS NULL AND forked_from IN (SELECT value FROM json_each(?))
+    ORDER BY created_at ASC
+  `).all(JSON.stringify(subtreeIds(rootId))) as any[];
+  
+  const children: any[] = [];
+  for (const fork of forks) {
+    if (seen.has(fork.id)) continue;
+    seen.add(fork.id);
+    children.push({ ...lineageNode(fork.id), forks: forkDescendants(fork.id, seen) });
+  }
+  return children;
+}
+
+// ============================================
+// DECISION OUTCOMES
+// ============================================
+
+const OUTCOME_RESULTS = ["success", "failure", "partial"];
+
+// Root posts that are expected to get an outcome: decision traces, structured
+// or posted to m/decisions
+const DECISION_POSTS_WHERE = `p.parent_id IS NULL AND p.deleted_at IS NULL
+  AND (p.post_type = 'decision' OR p.submolt_id = 'decisions')`;
+
+function getOutcome(postId: string): any | null {
+  const row = db.query(`
+    SELECT o.*, a.name as recorded_by_name
+    FROM post_outcomes o
+    LEFT JOIN agents a ON o.recorded_by = a.id
+    WHERE o.post_id = ?
+  `).get(postId) as any;
+  return row ? { ...row, evidence: JSON.parse(row.evidence || "[]"), metrics: JSON.parse(row.metrics || "{}") } : null;
+}
+
+// Notify the authors of decisions older than OUTCOME_REMINDER_DAYS that still
+// have no outcome. Each decision is reminded once (tracked in the activity log).
+function sendOutcomeReminders(dryRun = false): any[] {
+  if (!OUTCOME_REMINDER_DAYS) return [];
+
+  const due = db.query(`
+    SELECT p.id, p.agent_id, p.title, p.submolt_id, p.created_at
+    FROM posts p
+    WHERE ${DECISION_POSTS_WHERE}
+      AND p.agent_id IS NOT NULL
+      AND p.created_at < datetime('now', ?)
+      AND NOT EXISTS (SELECT 1 FROM post_outcomes o WHERE o.post_id = p.id)
+      AND NOT EXISTS (
+        SELECT 1 FROM activity act
+        WHERE act.action = 'outcome_reminder' AND act.target_type = 'post' AND act.target_id = p.id
+      )
+    ORDER BY p.created_at ASC
+  `).all(`-${OUTCOME_REMINDER_DAYS} days`) as any[];
+
+  if (!dryRun) {
+    for (const post of due) {
+      createNotification(
+        post.agent_id,
+        "outcome_reminder",
+        null,
+        "post",
+        post.id,
+        post.id,
+        `How did "${post.title || "your decision"}" turn out? Record it with POST /posts/${post.id}/outcome`
+      );
+      logActivity(null, "outcome_reminder", "post", post.id, { submolt: post.submolt_id, agent: post.agent_id });
+    }
+  }
+
+  return due;
+}
+
+// ============================================
+// REPUTATION (weighted voting)
+// ============================================
+
+// Points per unit of each reputation source
+const REPUTATION_POINTS = {
+  vote: 1,              // net votes received from others
+  fact_source: 2,       // a standing fact extracted from one of your posts
+  fact_support: 1,      // one of your posts cited as supporting a standing fact
+  resolved_thread: 3,   // a thread you started that got resolved
+  accepted_answer: 3,   // your reply accepted as a thread's solution
+};
+
+// Two agents are suspected of colluding when each has upvoted at least
+// COLLUSION_MIN_VOTES of the other's posts, covering at least
+// COLLUSION_COVERAGE of everything the other has posted
+const COLLUSION_MIN_VOTES = 3;
+const COLLUSION_COVERAGE = 0.8;
+
+// "a|b" (sorted) for each suspected pair; their votes for each other count zero
+const suspectedCollusion = new Set<string>();
+// The pairs themselves (with their vote counts) as of the last refresh
+let collusionPairs: any[] = [];
+
+function collusionKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function findCollusionPairs(): any[] {
+  return db.query(`
+    WITH upvotes AS (
+      SELECT v.agent_id as voter, p.agent_id as author, COUNT(*) as n
+      FROM votes v
+      JOIN posts p ON p.id = v.post_id
+      WHERE v.vote = 1 AND v.agent_id != p.agent_id
+      GROUP BY v.agent_id, p.agent_id
+    ),
+    authored AS (
+      SELECT agent_id, COUNT(*) as posts FROM posts GROUP BY agent_id
+    )
+    SELECT ab.voter as agent_a, ab.author as agent_b,
+           ab.n as a_upvoted_b, ba.n as b_upvoted_a,
+           ROUND(CAST(ab.n AS REAL) / pb.posts, 4) as a_coverage,
+           ROUND(CAST(ba.n AS REAL) / pa.posts, 4) as b_coverage
+    FROM upvotes ab
+    JOIN upvotes ba ON ba.voter = ab.author AND ba.author = ab.voter
+    JOIN authored pa ON pa.agent_id = ab.voter
+    JOIN authored pb ON pb.agent_id = ab.author
+    WHERE ab.voter < ab.author
+      AND ab.n >= ? AND ba.n >= ?
+      AND CAST(ab.n AS REAL) / pb.posts >= ? AND CAST(ba.n AS REAL) / pa.posts >= ?
+    ORDER BY ab.n + ba.n DESC
+  `).all(COLLUSION_MIN_VOTES, COLLUSION_MIN_VOTES, COLLUSION_COVERAGE, COLLUSION_COVERAGE) as any[];
+}
+
+// Reputation = net votes received (self-votes and votes from suspected
+// colluders excluded) + accepted/canon facts still valid drawn from the agent's posts +
+// resolved threads it started + its replies accepted as solutions. Vote weight grows with the log of reputation
+// (1 at zero, capped at 3, 0.5 when negative), times HUMAN_VOTE_WEIGHT for humans.
+function computeReputation(agentId: string, pairs: any[] = findCollusionPairs()): { score: number; vote_weight: number; breakdown: any } {
+  const agent = db.query("SELECT user_type FROM agents WHERE id = ?").get(agentId) as any;
+  const colluders = pairs
+    .filter(pair => pair.agent_a === agentId || pair.agent_b === agentId)
+    .map(pair => pair.agent_a === agentId ? pair.agent_b : pair.agent_a);
+
+  const votes = db.query(`
+    SELECT COALESCE(SUM(v.vote = 1), 0) as up,
+           COALESCE(SUM(v.vote = -1), 0) as down,
+           COALESCE(SUM(v.vote = 1 AND v.agent_id IN (SELECT value FROM json_each(?))), 0) as discounted
+    FROM votes v
+    JOIN posts p ON p.id = v.post_id
+    WHERE p.agent_id = ? AND v.agent_id != p.agent_id AND p.deleted_at IS NULL
+  `).get(JSON.stringify(colluders), agentId) as any;
+
+  const factSources = (db.query(`
+    SELECT COUNT(*) as count
+    FROM facts f
+    JOIN posts p ON p.id = f.source_post_id
+    WHERE p.agent_id = ? AND f.status IN ('accepted', 'canon') AND f.invalid_at IS NULL
+  `).get(agentId) as any).count;
+
+  const factSupport = (db.query(`
+    SELECT COUNT(*) as count
+    FROM facts f, json_each(CASE WHEN json_valid(f.supporting_posts) THEN f.supporting_posts ELSE '[]' END) s
+    JOIN posts p ON p.id = s.value
+    WHERE p.agent_id = ? AND f.status IN ('accepted', 'canon') AND f.invalid_at IS NULL
+  `).get(agentId) as any).count;
+
+  const resolved = (db.query(`
+    SELECT COUNT(*) as count
+    FROM threads t
+    JOIN posts p ON p.id = t.root_post_id
+    WHERE p.agent_id = ? AND t.status = 'resolved' AND p.deleted_at IS NULL
+  `).get(agentId) as any).count;
+
+  const accepted = (db.query(`
+    SELECT COUNT(*) as count
+    FROM threads t
+    JOIN posts p ON p.id = t.accepted_post_id
+    WHERE p.agent_id = ? AND p.deleted_at IS NULL
+  `).get(agentId) as any).count;
+
+  const breakdown = {
+    votes_received: {
+      up: votes.up,
+      down: votes.down,
+      discounted: votes.discounted,
+      points: (votes.up - votes.discounted - votes.down) * REPUTATION_POINTS.vote,
+    },
+    facts_sourced: { count: factSources, points: factSources * REPUTATION_POINTS.fact_source },
+    facts_supported: { count: factSupport, points: factSupport * REPUTATION_POINTS.fact_support },
+    resolved_threads: { count: resolved, points: resolved * REPUTATION_POINTS.resolved_thread },
+    accepted_answers: { count: accepted, points: accepted * REPUTATION_POINTS.accepted_answer },
+  };
+  const score = breakdown.votes_received.points + breakdown.facts_sourced.points +
+    breakdown.facts_supported.points + breakdown.resolved_threads.points + breakdown.accepted_answers.points;
+
+  const reputationWeight = score < 0 ? 0.5 : Math.min(3, 1 + Math.log2(1 + score) / 4);
+  const humanWeight = agent?.user_type === "human" ? HUMAN_VOTE_WEIGHT : 1;
+
+  return { score, vote_weight: Number((reputationWeight * humanWeight).toFixed(4)), breakdown };
+}
+
+function storeReputation(agentId: string, pairs?: any[]): any {
+  const reputation = computeReputation(agentId, pairs);
+  db.run(`
+    INSERT INTO agent_reputation (agent_id, score, vote_weight, breakdown, updated_at)
+    VALUES (?, ?, ?, ?, datetime('now'))
+    ON CONFLICT(agent_id) DO UPDATE SET
+      score = excluded.score, vote_weight = excluded.vote_weight,
+      breakdown = excluded.breakdown, updated_at = excluded.updated_at
+  `, [agentId, reputation.score, reputation.vote_weight, JSON.stringify(reputation.breakdown)]);
+  return reputation;
+}
+
+// Weight of one voter's vote on one post: zero for self-votes and suspected colluders
+function voteWeightFor(voterId: string, authorId: string | null): number {
+  if (voterId === authorId) return 0;
+  if (authorId && suspectedCollusion.has(collusionKey(voterId, authorId))) return 0;
+  const cached = db.query("SELECT vote_weight FROM agent_reputation WHERE agent_id = ?").get(voterId) as any;
+  return cached ? cached.vote_weight : storeReputation(voterId, collusionPairs).vote_weight;
+}
+
+// Called after any change to a post's votes
+function updateWeightedScore(postId: string, voterId: string): void {
+  const post = db.query("SELECT agent_id FROM posts WHERE id = ?").get(postId) as any;
+  db.run("UPDATE votes SET weight = ? WHERE post_id = ? AND agent_id = ?", [voteWeightFor(voterId, post?.agent_id), postId, voterId]);
+  db.run(`
+    UPDATE posts SET weighted_score = COALESCE((SELECT SUM(vote * weight) FROM votes WHERE post_id = ?), 0)
+    WHERE id = ?
+  `, [postId, postId]);
+}
+
+// Recompute every agent's reputation and collusion flags, then re-weight all
+// votes with the new weights (so weighted scores never drift from reputation)
+const refreshReputation = transaction(() => {
+  const pairs = collusionPairs = findCollusionPairs();
+  suspectedCollusion.clear();
+  for (const pair of pairs) suspectedCollusion.add(collusionKey(pair.agent_a, pair.agent_b));
+
+  const agents = db.query("SELECT id FROM agents").all() as any[];
+  for (const agent of agents) storeReputation(agent.id, pairs);
+
+  db.run(`
+    UPDATE votes SET weight = COALESCE((SELECT vote_weight FROM agent_reputation r WHERE r.agent_id = votes.agent_id), 1)
+  `);
+  db.run("UPDATE votes SET weight = 0 WHERE agent_id = (SELECT agent_id FROM posts WHERE posts.id = votes.post_id)");
+  for (const key of suspectedCollusion) {
+    const [a, b] = key.split("|");
+    db.run("UPDATE votes SET weight = 0 WHERE agent_id = ? AND post_id IN (SELECT id FROM posts WHERE agent_id = ?)", [a, b]);
+    db.run("UPDATE votes SET weight = 0 WHERE agent_id = ? AND post_id IN (SELECT id FROM posts WHERE agent_id = ?)", [b, a]);
+  }
+  db.run("UPDATE posts SET weighted_score = COALESCE((SELECT SUM(vote * weight) FROM votes WHERE votes.post_id = posts.id), 0)");
+
+  return { agents: agents.length, suspected_pairs: suspectedCollusion.size };
+});
+
+// ============================================
+// ACCEPTED ANSWERS
+// ============================================
+
+// Every post (root and replies) in a thread with an accepted answer
+const SOLVED_THREAD_POSTS = `
+  WITH RECURSIVE solved(id) AS (
+    SELECT root_post_id FROM threads WHERE accepted_post_id IS NOT NULL
+    UNION ALL
+    SELECT c.id FROM posts c JOIN solved ON c.parent_id = solved.id
+  )
+  SELECT id FROM solved
+`;
+
+// Fact text proposed from an accepted answer: its first non-heading paragraph, capped
+function solutionFactContent(reply: any): string {
+  const paragraphs = (reply.content || "").trim().split(/\n\s*\n/).map((p: string) => p.trim()).filter(Boolean);
+  const paragraph = paragraphs.find((p: string) => !/^#+\s/.test(p)) || (paragraphs[0] || "").replace(/^#+\s*/, "");
+  return paragraph.length > 500 ? paragraph.slice(0, 497) + "..." : paragraph;
+}
+
+// ============================================
+// FACT LIFECYCLE
+// ============================================
+
+// Votes no longer move a superseded or invalidated fact
+const FACT_CLOSED_STATUSES = ["superseded", "invalid"];
+
+function recordFactEvent(factId: string, event: string, agentId: string | null, details: {
+  from_status?: string | null;
+  to_status?: string | null;
+  from_confidence?: number | null;
+  to_confidence?: number | null;
+  related_fact_id?: string | null;
+  post_id?: string | null;
+  reason?: string | null;
+} = {}): void {
+  db.run(`
+    INSERT INTO fact_events (id, fact_id, event, agent_id, from_status, to_status, from_confidence, to_confidence, related_fact_id, post_id, reason)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `, [
+    generateId(), factId, event, agentId,
+    details.from_status ?? null, details.to_status ?? null,
+    details.from_confidence ?? null, details.to_confidence ?? null,
+    details.related_fact_id ?? null, details.post_id ?? null, details.reason ?? null,
+  ]);
+}
+
+function factVoteCounts(factId: string): { accept: number; dispute: number } {
+  const row = db.query(`
+    SELECT
+      COALESCE(SUM(CASE WHEN vote = 'accept' THEN 1 ELSE 0 END), 0) as accept,
+      COALESCE(SUM(CASE WHEN vote = 'dispute' THEN 1 ELSE 0 END), 0) as dispute
+    FROM fact_votes WHERE fact_id = ?
+  `).get(factId) as any;
+  return { accept: row.accept, dispute: row.dispute };
+}
+
+// Where the quorum rules put a fact with these votes
+function factStatusFor(votes: { accept: number; dispute: number }): string {
+  if (votes.dispute >= FACT_DISPUTE_QUORUM && votes.dispute >= votes.accept) return "disputed";
+  if (votes.accept >= FACT_CANON_QUORUM && votes.dispute === 0) return "canon";
+  if (votes.accept >= FACT_ACCEPT_QUORUM && votes.accept > votes.dispute) return "accepted";
+  return "proposed";
+}
+
+// Move a fact to the status its votes call for, one step at a time so a
+// fact never reaches canon without passing through accepted
+function applyFactQuorum(factId: string, agentId: string): string | null {
+  const fact = db.query("SELECT * FROM facts WHERE id = ?").get(factId) as any;
+  if (!fact || FACT_CLOSED_STATUSES.includes(fact.status)) return null;
+  
+  const target = factStatusFor(factVoteCounts(factId));
+  if (target === fact.status) return null;
+  
+  const steps = target === "canon" && !["accepted", "canon"].includes(fact.status) ? ["accepted", "canon"] : [target];
+  let from = fact.status;
+  for (const status of steps) {
+    db.run("UPDATE facts SET status = ?, updated_at = datetime('now') WHERE id = ?", [status, factId]);
+    recordFactEvent(factId, "status", agentId, { from_status: from, to_status: status, reason: "quorum" });
+    from = status;
+  }
+  
+  if (fact.extracted_by) {
+    createNotification(
+      fact.extracted_by, "fact", agentId, "fact", factId, fact.source_post_id,
+      `Your fact is now ${target}: ${fact.content.slice(0, 80)}`
+    );
+  }
+  return target;
+}
+
+// The first dispute opens a thread to argue it out, next to the fact's source
+function openFactDispute(fact: any, agentId: string, reason: string): string {
+  const source = fact.source_post_id
+    ? db.query("SELECT id, title, submolt_id FROM posts WHERE id = ?").get(fact.source_post_id) as any
+    : null;
+  const submoltId = source?.submolt_id || "learnings";
+  
+  const id = generateId();
+  const title = `Disputed fact: ${fact.content.length > 80 ? `${fact.content.slice(0, 77)}...` : fact.content}`;
+  const content = [
+    `> ${fact.content.split("\n").join("\n> ")}`,
+    `**Disputed by ${agentId}:** ${reason}`,
+    source ? `Source: ${source.title || "a reply"} (\`${source.id}\`)` : null,
+    `Fact \`${fact.id}\` is ${fact.status}. Vote with \`POST /facts/${fact.id}/accept\` or \`POST /facts/${fact.id}/dispute\`.`,
+  ].filter(Boolean).join("\n\n");
+  
+  db.run(`
+    INSERT INTO posts (id, agent_id, submolt_id, title, content, post_type, tags, metadata)
+    VALUES (?, ?, ?, ?, ?, 'context', ?, ?)
+  `, [id, agentId, submoltId, title, content, JSON.stringify(["fact-dispute"]), JSON.stringify({ origin: "fact_dispute", fact_id: fact.id })]);
+  createThread(id, submoltId, title, agentId);
+  extractEntities(content, id);
+  queueEmbedding(id);
+  if (source) linkRestructured(id, source.id, "references", "Dispute of a fact drawn from this post", agentId);
+  
+  db.run("UPDATE facts SET dispute_post_id = ? WHERE id = ?", [id, fact.id]);
+  logActivity(agentId, "post", "post", id, { submolt: submoltId, title, origin: "fact_dispute", fact_id: fact.id });
+  return id;
+}
+
+function castFactVote(auth: AuthContext, factId: string, vote: "accept" | "dispute", reason: string | null): Response {
+  const fact = db.query("SELECT * FROM facts WHERE id = ?").get(factId) as any;
+  if (!fact) return errorResponse("Fact not found", 404);
+  
+  const denied = requireScope(auth, "facts:write");
+  if (denied) return denied;
+  if (!auth.agent_id) return errorResponse("Authentication required", 401);
+  
+  if (fact.extracted_by === auth.agent_id) return errorResponse("You can't vote on a fact you proposed", 403);
+  if (FACT_CLOSED_STATUSES.includes(fact.status)) return errorResponse(`Fact is ${fact.status}`, 409);
+  if (vote === "dispute" && !reason) return errorResponse("reason is required to dispute a fact");
+  
+  const previous = db.query("SELECT vote FROM fact_votes WHERE fact_id = ? AND agent_id = ?").get(factId, auth.agent_id) as any;
+  
+  const result = transaction(() => {
+    db.run(`
+      INSERT INTO fact_votes (fact_id, agent_id, vote, reason) VALUES (?, ?, ?, ?)
+      ON CONFLICT(fact_id, agent_id) DO UPDATE SET vote = excluded.vote, reason = excluded.reason, updated_at = datetime('now')
+    `, [factId, auth.agent_id, vote, reason]);
+    
+    let disputePostId: string | null = null;
+    if (previous?.vote !== vote) {
+      recordFactEvent(factId, vote, auth.agent_id, { reason });
+      if (vote === "dispute") {
+        disputePostId = fact.dispute_post_id || openFactDispute(fact, auth.agent_id!, reason!);
+        if (fact.dispute_post_id) {
+          notifySubscribers("post", fact.dispute_post_id, "fact", auth.agent_id, fact.dispute_post_id,
+            `${auth.agent_id} also disputes: ${fact.content.slice(0, 80)}`);
+        }
+        if (fact.extracted_by) {
+          createNotification(
+            fact.extracted_by, "fact", auth.agent_id, "fact", factId, disputePostId,
+            `${auth.agent_id} disputed your fact: ${fact.content.slice(0, 80)}`
+          );
+        }
+      }
+    }
+    return { status: applyFactQuorum(factId, auth.agent_id!), disputePostId };
+  })();
+  
+  logActivity(auth.agent_id, `fact_${vote}`, "fact", factId, { reason, status: result.status });
+  
+  const updated = db.query("SELECT * FROM facts WHERE id = ?").get(factId);
+  return jsonResponse({
+    fact: updated,
+    vote,
+    changed: previous?.vote !== vote,
+    votes: factVoteCounts(factId),
+    dispute_post_id: result.disputePostId,
+  });
+}
+
+// Accepted and canon facts were settled by a quorum, so only their extractor
+// or an admin can retire one. Returns a 403 response, or null if allowed.
+function supersedeDenied(auth: AuthContext, fact: any): Response | null {
+  if (!["accepted", "canon"].includes(fact.status)) return null;
+  if (hasScope(auth, "admin") || (auth.agent_id && auth.agent_id === fact.extracted_by)) return null;
+  return errorResponse(`Fact is ${fact.status}: only its extractor or an admin can supersede it`, 403);
+}
+
+// The newer fact replaces the older one: the old one stops being valid now
+const supersedeFact = transaction((oldFact: any, newFactId: string, agentId: string | null, reason: string | null) => {
+  db.run(`
+    UPDATE facts
+    SET status = 'superseded', invalid_at = datetime('now'), superseded_by = ?, updated_at = datetime('now')
+    WHERE id = ?
+  `, [newFactId, oldFact.id]);
+  db.run("UPDATE facts SET supersedes = ?, updated_at = datetime('now') WHERE id = ?", [oldFact.id, newFactId]);
+  
+  recordFactEvent(oldFact.id, "superseded", agentId, {
+    from_status: oldFact.status, to_status: "superseded", related_fact_id: newFactId, reason,
+  });
+  recordFactEvent(newFactId, "supersedes", agentId, { related_fact_id: oldFact.id, reason });
+  
+  if (oldFact.extracted_by) {
+    createNotification(
+      oldFact.extracted_by, "fact", agentId, "fact", oldFact.id, oldFact.source_post_id,
+      `Your fact was superseded: ${oldFact.content.slice(0, 80)}`
+    );
+  }
+});
+
+// ============================================
+// FACT HISTORY (bi-temporal queries)
+// ============================================
+
+// Timestamps are compared in SQLite's datetime() form
+function parseTimestamp(value: string | null): string | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  if (isNaN(time)) return null;
+  return new Date(time).toISOString().replace("T", " ").slice(0, 19);
+}
+
+// What we believed at `at`: facts already recorded and valid at that instant,
+// with the status and confidence their history gave them then
+function factsAsOf(at: string): any[] {
+  const facts = db.query(`
+    SELECT * FROM (
+      SELECT f.*, a.name as extracted_by_name, p.title as source_title,
+        (SELECT e.to_status FROM fact_events e
+          WHERE e.fact_id = f.id AND e.to_status IS NOT NULL AND datetime(e.created_at) <= datetime(?1)
+          ORDER BY datetime(e.created_at) DESC, e.rowid DESC LIMIT 1) as status_as_of,
+        (SELECT e.to_confidence FROM fact_events e
+          WHERE e.fact_id = f.id AND e.to_confidence IS NOT NULL AND datetime(e.created_at) <= datetime(?1)
+          ORDER BY datetime(e.created_at) DESC, e.rowid DESC LIMIT 1) as confidence_as_of
+      FROM facts f
+      LEFT JOIN agents a ON f.extracted_by = a.id
+      LEFT JOIN posts p ON f.source_post_id = p.id
+      WHERE datetime(f.created_at) <= datetime(?1)
+        AND datetime(f.valid_at) <= datetime(?1)
+        AND (f.invalid_at IS NULL OR datetime(f.invalid_at) > datetime(?1))
+    )
+    WHERE status_as_of IS NULL OR status_as_of NOT IN ('superseded', 'invalid')
+    ORDER BY created_at DESC
+  `).all(at) as any[];
+  
+  return facts.map(({ status_as_of, confidence_as_of, ...fact }) => ({
+    ...fact,
+    status: status_as_of ?? fact.status,
+    confidence: confidence_as_of ?? fact.confidence,
+    current_status: fact.status,
+    current_confidence: fact.confidence,
+  }));
+}
+
+// A fact's events with the status and confidence in force after each one
+function factTimeline(factId: string): any[] {
+  const events = db.query(`
+    SELECT e.*, a.name as agent_name
+    FROM fact_events e
+    LEFT JOIN agents a ON e.agent_id = a.id
+    WHERE e.fact_id = ?
+    ORDER BY datetime(e.created_at) ASC, e.rowid ASC
+  `).all(factId) as any[];
+  
+  let status: string | null = null;
+  let confidence: number | null = null;
+  return events.map(event => {
+    status = event.to_status ?? status;
+    confidence = event.to_confidence ?? confidence;
+    return { ...event, status, confidence };
+  });
+}
+
+// ============================================
+// KNOWLEDGE BASE (facts by entity)
+// ============================================
+
+// Subjects suggested for a fact: the entities extraction finds in its text
+function suggestFactEntities(content: string): string[] {
+  return [...new Set(findEntities(content).map(entity => entity.name))];
+}
+
+// Tag a fact with entities by name, creating any that no post has mentioned yet
+function tagFactEntities(factId: string, names: string[], source: "suggested" | "manual", agentId: string | null): string[] {
+  const tagged: string[] = [];
+  for (const raw of names) {
+    const name = String(raw).trim().toLowerCase();
+    if (!name) continue;
+    
+    let entity = db.query("SELECT id FROM entities WHERE name = ?").get(name) as any;
+    if (!entity) {
+      entity = { id: generateId() };
+      const type = name.startsWith("@") ? "mention" : name.startsWith("#") ? "tag" : "named";
+      db.run("INSERT INTO entities (id, name, entity_type, mention_count) VALUES (?, ?, ?, 0)", [entity.id, name, type]);
+    }
+    
+    const result = db.run(`
+      INSERT OR IGNORE INTO fact_entities (fact_id, entity_id, source, added_by) VALUES (?, ?, ?, ?)
+    `, [factId, entity.id, source, agentId]);
+    if (result.changes > 0) tagged.push(name);
+  }
+  return tagged;
+}
+
+function factEntities(factId: string): any[] {
+  return db.query(`
+    SELECT e.name, e.entity_type, fe.source, fe.added_by, fe.created_at
+    FROM fact_entities fe
+    JOIN entities e ON e.id = fe.entity_id
+    WHERE fe.fact_id = ?
+    ORDER BY e.name
+  `).all(factId) as any[];
+}
+
+function entityFactIds(name: string): Set<string> {
+  const rows = db.query(`
+    SELECT fe.fact_id FROM fact_entities fe
+    JOIN entities e ON e.id = fe.entity_id
+    WHERE e.name = ?
+  `).all(name.toLowerCase()) as any[];
+  return new Set(rows.map(row => row.fact_id));
+}
+
+// Still-valid facts about an entity in the given statuses, most confident first
+function entityFacts(entityId: string, statuses: string[]): any[] {
+  return db.query(`
+    SELECT f.*, a.name as extracted_by_name
+    FROM facts f
+    JOIN fact_entities fe ON fe.fact_id = f.id
+    LEFT JOIN agents a ON f.extracted_by = a.id
+    WHERE fe.entity_id = ? AND f.invalid_at IS NULL
+      AND f.status IN (SELECT value FROM json_each(?))
+    ORDER BY f.confidence DESC, f.created_at DESC
+  `).all(entityId, JSON.stringify(statuses)) as any[];
+}
+
+// Threads whose posts mention the entity most, by mentions then score
+function topEntityThreads(entityId: string, limit: number): any[] {
+  const mentions = db.query(`
+    SELECT em.post_id FROM entity_mentions em
+    JOIN posts p ON p.id = em.post_id
+    WHERE em.entity_id = ? AND p.deleted_at IS NULL
+  `).all(entityId) as any[];
+  
+  const hits = new Map<string, number>();
+  for (const mention of mentions) {
+    const rootId = findRootPostId(mention.post_id) || mention.post_id;
+    hits.set(rootId, (hits.get(rootId) || 0) + 1);
+  }
+  if (hits.size === 0) return [];
+  
+  const threads = db.query(`
+    SELECT t.id, t.root_post_id, p.title, p.submolt_id, p.status, (p.upvotes - p.downvotes) as score,
+           t.reply_count, t.accepted_post_id, t.last_activity
+    FROM threads t
+    JOIN posts p ON p.id = t.root_post_id
+    WHERE t.root_post_id IN (SELECT value FROM json_each(?)) AND p.deleted_at IS NULL
+  `).all(JSON.stringify([...hits.keys()])) as any[];
+  
+  return threads
+    .map(thread => ({ ...thread, mentions: hits.get(thread.root_post_id) }))
+    .sort((a, b) => b.mentions - a.mentions || b.score - a.score)
+    .slice(0, limit);
+}
+
+function knowledgeSummary(entity: any, threadLimit: number): any {
+  // Open disputes: facts still standing that someone has disputed
+  const disputes = db.query(`
+    SELECT f.id, f.content, f.status, f.confidence, f.dispute_post_id,
+      (SELECT COUNT(*) FROM fact_votes v WHERE v.fact_id = f.id AND v.vote = 'accept') as accepts,
+      (SELECT COUNT(*) FROM fact_votes v WHERE v.fact_id = f.id AND v.vote = 'dispute') as disputes
+    FROM facts f
+    JOIN fact_entities fe ON fe.fact_id = f.id
+    WHERE fe.entity_id = ? AND f.status NOT IN ('superseded', 'invalid')
+      AND EXISTS (SELECT 1 FROM fact_votes v WHERE v.fact_id = f.id AND v.vote = 'dispute')
+    ORDER BY f.updated_at DESC
+  `).all(entity.id) as any[];
+  
+  const proposed = (db.query(`
+    SELECT COUNT(*) as count FROM facts f
+    JOIN fact_entities fe ON fe.fact_id = f.id
+    WHERE fe.entity_id = ? AND f.status = 'proposed'
+      AND NOT EXISTS (SELECT 1 FROM fact_votes v WHERE v.fact_id = f.id AND v.vote = 'dispute')
+  `).get(entity.id) as any).count;
+  
+  return {
+    entity: {
+      name: entity.name,
+      type: entity.entity_type,
+      mention_count: entity.mention_count,
+      first_seen: entity.first_seen,
+      last_seen: entity.last_seen,
+    },
+    canon: entityFacts(entity.id, ["canon"]),
+    accepted: entityFacts(entity.id, ["accepted"]),
+    open_disputes: disputes,
+    proposed_count: proposed,
+    top_threads: topEntityThreads(entity.id, threadLimit),
+  };
+}
+
+// Compact enough to paste into an agent's context window
+function renderKnowledge(summary: any): string {
+  let md = `# ${summary.entity.name}\n\n`;
+  md += `${summary.entity.type} · ${summary.entity.mention_count} mentions · last seen ${summary.entity.last_seen}\n`;
+  
+  const factLine = (fact: any) => `- ${fact.content} _(confidence ${fact.confidence.toFixed(2)}, fact ${fact.id})_`;
+  if (summary.canon.length) {
+    md += `\n## Canon\n\n${summary.canon.map(factLine).join("\n")}\n`;
+  }
+  if (summary.accepted.length) {
+    md += `\n## Accepted\n\n${summary.accepted.map(factLine).join("\n")}\n`;
+  }
+  if (summary.open_disputes.length) {
+    md += `\n## Open disputes\n\n${summary.open_disputes.map((fact: any) =>
+      `- ${fact.content} _(${fact.status}; ${fact.accepts} accept / ${fact.disputes} dispute${fact.dispute_post_id ? `, discussion ${fact.dispute_post_id}` : ""})_`
+    ).join("\n")}\n`;
+  }
+  if (summary.top_threads.length) {
+    md += `\n## Top threads\n\n${summary.top_threads.map((thread: any) =>
+      `- ${thread.title || "(untitled)"} — m/${thread.submolt_id}, ${thread.status}${thread.accepted_post_id ? ", solved" : ""} _(${thread.root_post_id})_`
+    ).join("\n")}\n`;
+  }
+  if (summary.proposed_count) {
+    md += `\n${summary.proposed_count} more proposed fact${summary.proposed_count === 1 ? "" : "s"} awaiting votes.\n`;
+  }
+  return md;
+}
+
+// ============================================
+// CONTRADICTION DETECTION (facts vs facts and posts)
+// ============================================
+
+// Facts at least this similar (cosine over distinct terms, numbers aside) are about the same thing...
+const CONFLICT_MIN_SIMILARITY = 0.35;
+// ...or this similar when they also share a subject entity
+const CONFLICT_ENTITY_SIMILARITY = 0.2;
+// Confidence taken off an accepted fact while it has an open conflict
+const CONFLICT_CONFIDENCE_PENALTY = 0.15;
+
+const NEGATION = /\b(?:not|no|never|none|cannot|without|false)\b|n't\b/i;
+
+function statedNumbers(text: string): string[] {
+  return [...new Set(text.match(/\d+(?:\.\d+)?/g) || [])].sort();
+}
+
+// Why two statements about the same thing can't both hold: one negates what
+// the other asserts, or they give different numbers
+function conflictReasons(a: string, b: string): string[] {
+  const reasons: string[] = [];
+  if (NEGATION.test(a) !== NEGATION.test(b)) reasons.push("negation");
+  
+  const numbersA = statedNumbers(a);
+  const numbersB = statedNumbers(b);
+  if (numbersA.length && numbersB.length && numbersA.join(",") !== numbersB.join(",")) reasons.push("numbers");
+  return reasons;
+}
+
+// Accepted or canon facts that a fact contradicts
+function findFactConflicts(fact: any): { fact: any; similarity: number; reasons: string[] }[] {
+  const termsOf = (text: string) => significantTerms(text).filter(term => !/^\d/.test(term) && !NEGATION.test(term));
+  const terms = new Set(termsOf(fact.content));
+  if (terms.size === 0) return [];
+  
+  const candidates = db.query(`
+    SELECT f.*,
+      (SELECT COUNT(*) FROM fact_entities a JOIN fact_entities b ON a.entity_id = b.entity_id
+        WHERE a.fact_id = f.id AND b.fact_id = ?1) as shared_entities
+    FROM facts f
+    WHERE f.id != ?1 AND f.status IN ('accepted', 'canon') AND f.invalid_at IS NULL
+  `).all(fact.id) as any[];
+  
+  const conflicts: { fact: any; similarity: number; reasons: string[] }[] = [];
+  for (const candidate of candidates) {
+    const other = termsOf(candidate.content);
+    if (other.length === 0) continue;
+    const shared = other.filter(term => terms.has(term)).length;
+    const similarity = shared / Math.sqrt(terms.size * other.length);
+    
+    const related = similarity >= CONFLICT_MIN_SIMILARITY ||
+      (candidate.shared_entities > 0 && similarity >= CONFLICT_ENTITY_SIMILARITY);
+    if (!related) continue;
+    
+    const reasons = conflictReasons(fact.content, candidate.content);
+    if (reasons.length) {
+      const { shared_entities, ...accepted } = candidate;
+      conflicts.push({ fact: accepted, similarity: Math.round(similarity * 100) / 100, reasons });
+    }
+  }
+  return conflicts.sort((a, b) => b.similarity - a.similarity);
+}
+
+// Flag an accepted fact as contradicted, knock its confidence down and tell
+// the extractors. A fact has at most one open flag (so one penalty) until a
+// human resolves it; anonymous callers and the fact's own extractor can't flag.
+function flagFactConflict(fact: any, against: {
+  factId?: string | null;
+  postId?: string | null;
+  reasons: string[];
+  similarity?: number | null;
+}, agentId: string | null): any | null {
+  if (!agentId || agentId === fact.extracted_by) return null;
+  
+  const open = db.query("SELECT id FROM fact_conflicts WHERE fact_id = ? AND status = 'open'").get(fact.id);
+  if (open) return null;
+  
+  const before = fact.confidence;
+  const after = Math.max(0, Math.round((before - CONFLICT_CONFIDENCE_PENALTY) * 100) / 100);
+  const id = generateId();
+  
+  db.run("UPDATE facts SET confidence = ?, updated_at = datetime('now') WHERE id = ?", [after, fact.id]);
+  db.run(`
+    INSERT INTO fact_conflicts (id, fact_id, conflicting_fact_id, post_id, reasons, similarity, confidence_before, confidence_after, detected_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `, [id, fact.id, against.factId || null, against.postId || null, JSON.stringify(against.reasons),
+      against.similarity ?? null, before, after, agentId]);
+  recordFactEvent(fact.id, "conflict", agentId, {
+    from_confidence: before,
+    to_confidence: after,
+    related_fact_id: against.factId || null,
+    post_id: against.postId || null,
+    reason: against.reasons.join(", "),
+  });
+  
+  const message = against.factId
+    ? `A new fact contradicts your accepted fact: ${fact.content.slice(0, 80)}`
+    : `A post contradicts the source of your accepted fact: ${fact.content.slice(0, 80)}`;
+  if (fact.extracted_by) {
+    createNotification(fact.extracted_by, "conflict", agentId, "fact", fact.id, against.postId || fact.source_post_id, message);
+  }
+  if (against.factId) {
+    const newer = db.query("SELECT extracted_by, content FROM facts WHERE id = ?").get(against.factId) as any;
+    if (newer?.extracted_by && newer.extracted_by !== fact.extracted_by) {
+      createNotification(
+        newer.extracted_by, "conflict", agentId, "fact", against.factId, fact.source_post_id,
+        `Your fact contradicts an accepted one: ${fact.content.slice(0, 80)}`
+      );
+    }
+  }
+  
+  const conflict = db.query("SELECT * FROM fact_conflicts WHERE id = ?").get(id) as any;
+  return { ...conflict, reasons: against.reasons };
+}
+
+// Run when a fact is proposed
+function checkFactConflicts(factId: string, agentId: string | null): any[] {
+  const fact = db.query("SELECT * FROM facts WHERE id = ?").get(factId) as any;
+  if (!fact) return [];
+  
+  return findFactConflicts(fact)
+    .map(conflict => flagFactConflict(conflict.fact, {
+      factId, reasons: conflict.reasons, similarity: conflict.similarity,
+    }, agentId))
+    .filter(Boolean);
+}
+
+// Run when a post links to another with 'contradicts': the accepted facts
+// drawn from the target are now in question
+function flagContradictedFacts(postId: string, targetId: string, agentId: string | null): any[] {
+  const facts = db.query(`
+    SELECT * FROM facts
+    WHERE source_post_id = ? AND status IN ('accepted', 'canon') AND invalid_at IS NULL
+  `).all(targetId) as any[];
+  
+  return facts
+    .map(fact => flagFactConflict(fact, { postId, reasons: ["contradicts_link"] }, agentId))
+    .filter(Boolean);
+}
+
+// ============================================
+// REACTIONS
+// ============================================
+
+// Used by submolts that don't configure their own vocabulary
+const DEFAULT_REACTIONS = ["verified", "reproduced", "disagree", "needs-human"];
+
+// Flags a post for the human operator (boosted in their feed)
+const NEEDS_HUMAN_REACTION = "needs-human";
+
+function submoltReactions(submoltId: string): string[] {
+  const row = db.query("SELECT reactions FROM submolts WHERE id = ?").get(submoltId) as any;
+  if (!row?.reactions) return DEFAULT_REACTIONS;
+  try {
+    return JSON.parse(row.reactions);
+  } catch {
+    return DEFAULT_REACTIONS;
+  }
+}
+
+function checkReactionVocabulary(reactions: any): string | null {
+  if (!Array.isArray(reactions) || reactions.length === 0 || reactions.length > 20) {
+    return "reactions must be an array of 1-20 names (or null for the defaults)";
+  }
+  const bad = reactions.find(r => typeof r !== "string" || !/^[a-z][a-z0-9_-]{0,31}$/.test(r));
+  if (bad !== undefined) return `Invalid reaction name '${bad}' (lowercase letters, digits, - or _)`;
+  return null;
+}
+
+// { post_id: { reaction: count } } for the given posts
+function reactionCounts(postIds: string[]): Record<string, Record<string, number>> {
+  const counts: Record<string, Record<string, number>> = {};
+  if (postIds.length === 0) return counts;
+  
+  const rows = db.query(`
+    SELECT post_id, reaction, COUNT(*) as count
+    FROM reactions
+    WHERE post_id IN (SELECT value FROM json_each(?))
+    GROUP BY post_id, reaction
+  `).all(JSON.stringify(postIds)) as any[];
+  for (const row of rows) {
+    (counts[row.post_id] ||= {})[row.reaction] = row.count;
+  }
+  return counts;
+}
+
+// ============================================
+// AGENT FILE VERSIONS
+// ============================================
+
+function nextFileVersion(agentId: string, fileType: string): number {
+  // Continues past deletes so a re-created file never collides with old history
+  const row = db.query(`
+    SELECT MAX(version) as max_version FROM agent_file_versions
+    WHERE agent_id = ? AND file_type = ?
+  `).get(agentId, fileType) as any;
+  return (row?.max_version || 0) + 1;
+}
+
+function recordFileVersion(file: any, createdBy: string | null, changeType: string, rolledBackTo: number | null = null): void {
+  db.run(`
+    INSERT INTO agent_file_versions (id, file_id, agent_id, file_type, version, filename, content, change_type, rolled_back_to, created_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `, [generateId(), file.id, file.agent_id, file.file_type, file.version, file.filename, file.content, changeType, rolledBackTo, createdBy]);
+}
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, If-Match, If-None-Match",
+  "Access-Control-Expose-Headers": "ETag",
+};
+
+function jsonResponse(data: any, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data, null, 2), {
+    status,
+    headers: { "Content-Type": "application/json", ...CORS_HEADERS, ...headers },
+  });
+}
+
+// ============================================
+// OPTIMISTIC CONCURRENCY (ETag / If-Match)
+// ============================================
+
+function fileEtag(version: number): string {
+  return `"v${version}"`;
+}
+
+function postEtag(postId: string): string {
+  // Current revision = number of replaced versions + 1
+  const row = db.query("SELECT COUNT(*) as count FROM post_revisions WHERE post_id = ?").get(postId) as any;
+  return `"r${(row?.count || 0) + 1}"`;
+}
 
-function generateApiKey(): string {
-  return `lm_${randomBytes(24).toString('base64url')}`;
+function preconditionSatisfied(req: Request, currentEtag: string | null): boolean {
+  // If-None-Match: * = create-only, fails if anything exists
+  if (req.headers.get("If-None-Match")?.trim() === "*" && currentEtag) return false;
+  const ifMatch = req.headers.get("If-Match");
+  if (!ifMatch) return true;
+  // Any If-Match fails when there is no current representation
+  if (!currentEtag) return false;
+  if (ifMatch.trim() === "*") return true;
+  return ifMatch.split(",").map(tag => tag.trim().replace(/^W\//, "")).includes(currentEtag);
 }
 
-function hashApiKey(key: string): string {
-  return createHash('sha256').update(key).digest('hex');
+function errorResponse(message: string, status = 400): Response {
+  return jsonResponse({ error: message }, status);
 }
 
 // ============================================
-// THREAD HELPERS
+// CURSOR PAGINATION
 // ============================================
 
-function createThread(rootPostId: string, submoltId: string | null, title: string | null, agentId: string | null): string {
-  const threadId = `thr_${rootPostId}`;
-  
-  db.run(`
-    INSERT INTO threads (id, root_post_id, submolt_id, title, participant_count, created_at, last_activity)
-    VALUES (?, ?, ?, ?, 1, datetime('now'), datetime('now'))
-  `, [threadId, rootPostId, submoltId, title]);
-  
-  return threadId;
+// Cursors are opaque base64url JSON. Keyset cursors hold the sort key of the
+// last row returned, so concurrent inserts can't shift later pages. Orderings
+// that drift on their own (hot, search rank) use an offset pinned to a rowid
+// snapshot instead: rows created after the first page stay out of the walk.
+type KeysetCursor = any[];
+type OffsetCursor = { o: number; r: number };
+
+function encodeCursor(cursor: KeysetCursor | OffsetCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
 }
 
-function updateThreadOnReply(rootPostId: string, replyAgentId: string | null): void {
-  // Find the thread for this root post
-  const thread = db.query("SELECT id, participant_count FROM threads WHERE root_post_id = ?").get(rootPostId) as any;
-  if (!thread) return;
-  
-  // Update reply count and last activity
-  db.run(`
-    UPDATE threads 
-    SET reply_count = reply_count + 1, 
-        last_activity = datetime('now')
-    WHERE id = ?
-  `, [thread.id]);
-  
-  // Update participant count if this is a new participant
-  if (replyAgentId) {
-    const existingParticipant = db.query(`
-      SELECT 1 FROM posts p
-      WHERE (p.id = (SELECT root_post_id FROM threads WHERE id = ?) AND p.agent_id = ?)
-         OR (p.parent_id IS NOT NULL AND p.agent_id = ? AND EXISTS (
-           WITH RECURSIVE parents AS (
-             SELECT parent_id FROM posts WHERE id = p.id
-             UNION ALL
-             SELECT po.parent_id FROM posts po JOIN parents pa ON po.id = pa.parent_id
-           )
-           SELECT 1 FROM parents WHERE parent_id = (SELECT root_post_id FROM threads WHERE id = ?)
-         ))
-      LIMIT 1
-    `).get(thread.id, replyAgentId, replyAgentId, thread.id);
-    
-    if (!existingParticipant) {
-      db.run("UPDATE threads SET participant_count = participant_count + 1 WHERE id = ?", [thread.id]);
-    }
+function decodeCursor(raw: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+  } catch {
+    return null;
   }
 }
 
-function findRootPostId(postId: string): string | null {
-  // Walk up the parent chain to find the root post
-  const result = db.query(`
-    WITH RECURSIVE post_chain AS (
-      SELECT id, parent_id FROM posts WHERE id = ?
-      UNION ALL
-      SELECT p.id, p.parent_id FROM posts p JOIN post_chain pc ON p.id = pc.parent_id
-    )
-    SELECT id FROM post_chain WHERE parent_id IS NULL
-  `).get(postId) as any;
-  
-  return result?.id || null;
+// Rows must be ordered by `keys` DESC, the last key unique (usually the id).
+// Returns the extra WHERE clause (with leading AND) for the requested page.
+function keysetPage(url: URL, keys: string[]): { clause: string; params: any[] } | Response {
+  const raw = url.searchParams.get("cursor");
+  if (!raw) return { clause: "", params: [] };
+  const values = decodeCursor(raw);
+  if (!Array.isArray(values) || values.length !== keys.length) {
+    return errorResponse("Invalid cursor");
+  }
+  return {
+    clause: ` AND (${keys.join(", ")}) < (${keys.map(() => "?").join(", ")})`,
+    params: values,
+  };
 }
 
-const CORS_HEADERS = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization",
-};
+// Queries fetch limit + 1 rows; the extra row only says whether there's more
+function keysetNext(rows: any[], limit: number, fields: string[]): { rows: any[]; next_cursor: string | null } {
+  if (rows.length <= limit) return { rows, next_cursor: null };
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return { rows: page, next_cursor: encodeCursor(fields.map(f => last[f])) };
+}
 
-function jsonResponse(data: any, status = 200): Response {
-  return new Response(JSON.stringify(data, null, 2), {
-    status,
-    headers: { "Content-Type": "application/json", ...CORS_HEADERS },
-  });
+// `table` supplies the rowid snapshot for the first page
+function offsetPage(url: URL, table: string): { offset: number; snapshot: number } | Response {
+  const raw = url.searchParams.get("cursor");
+  if (!raw) {
+    const row = db.query(`SELECT MAX(rowid) as max_rowid FROM ${table}`).get() as any;
+    return {
+      offset: parseInt(url.searchParams.get("offset") || "0"),
+      snapshot: row?.max_rowid || 0,
+    };
+  }
+  const cursor = decodeCursor(raw) as OffsetCursor | null;
+  if (!cursor || typeof cursor.o !== "number" || typeof cursor.r !== "number") {
+    return errorResponse("Invalid cursor");
+  }
+  return { offset: cursor.o, snapshot: cursor.r };
 }
 
-function errorResponse(message: string, status = 400): Response {
-  return jsonResponse({ error: message }, status);
+function offsetNext(rows: any[], limit: number, page: { offset: number; snapshot: number }): { rows: any[]; next_cursor: string | null } {
+  if (rows.length <= limit) return { rows, next_cursor: null };
+  return {
+    rows: rows.slice(0, limit),
+    next_cursor: encodeCursor({ o: page.offset + limit, r: page.snapshot }),
+  };
 }
 
 // ============================================
@@ -712,7 +3552,7 @@ function extractAuth(req: Request): AuthContext {
   
   // Check for X-Human-Id header (simplified localhost auth for viewer)
   const humanIdHeader = req.headers.get("X-Human-Id");
-  if (humanIdHeader === "human-operator") {
+  if (humanIdHeader === "human-operator" && !STRICT_AUTH) {
     // Verify the human user exists
     const human = db.query("SELECT id FROM agents WHERE id = ? AND user_type = 'human'").get("human-operator");
     if (human) {
@@ -736,7 +3576,7 @@ function extractAuth(req: Request): AuthContext {
     FROM auth_tokens t
     JOIN agents a ON t.agent_id = a.id
     WHERE t.api_key_hash = ?
-      AND (t.expires_at IS NULL OR t.expires_at > datetime('now'))
+      AND (t.expires_at IS NULL OR datetime(t.expires_at) > datetime('now'))
   `).get(keyHash) as any;
   
   if (!token) {
@@ -748,11 +3588,81 @@ function extractAuth(req: Request): AuthContext {
   
   return {
     agent_id: token.agent_id,
-    permissions: (token.permissions || "read").split(","),
+    permissions: parseScopes(token.permissions || "read") || ["read"],
     token_id: token.id,
   };
 }
 
+// ============================================
+// TOKEN SCOPES
+// ============================================
+
+// "write" is the catch-all for every *:write scope and "admin" implies everything.
+// submolt:<id>:write scopes restrict a token's writes to the listed submolts.
+const TOKEN_SCOPES = ["read", "write", "admin", "posts:write", "facts:write", "files:write", "impersonate"];
+const SUBMOLT_SCOPE_PATTERN = /^submolt:([\w-]+):write$/;
+
+function parseScopes(input: unknown): string[] | null {
+  const list = Array.isArray(input) ? input : String(input ?? "").split(",");
+  const scopes = [...new Set(list.map(s => String(s).trim()).filter(Boolean))];
+  if (scopes.some(s => !TOKEN_SCOPES.includes(s) && !SUBMOLT_SCOPE_PATTERN.test(s))) return null;
+  return scopes;
+}
+
+function hasScope(auth: AuthContext, scope: string): boolean {
+  if (auth.permissions.includes("admin") || auth.permissions.includes(scope)) return true;
+  return scope.endsWith(":write") && auth.permissions.includes("write");
+}
+
+function submoltScopeAllows(auth: AuthContext, submoltId: string): boolean {
+  const allowed = auth.permissions
+    .map(s => s.match(SUBMOLT_SCOPE_PATTERN)?.[1])
+    .filter(Boolean);
+  return allowed.length === 0 || allowed.includes(submoltId) || auth.permissions.includes("admin");
+}
+
+// Returns a 403 response if the request's token lacks the scope (or is
+// restricted to other submolts). Tokenless requests are left to the
+// submolt default permissions.
+function requireScope(auth: AuthContext, scope: string, submoltId?: string): Response | null {
+  if (!auth.token_id) return null;
+  if (!hasScope(auth, scope)) {
+    return errorResponse(`Token is missing the '${scope}' scope`, 403);
+  }
+  if (submoltId && !submoltScopeAllows(auth, submoltId)) {
+    return errorResponse(`Token is not scoped for submolt '${submoltId}'`, 403);
+  }
+  return null;
+}
+
+// Who is acting on this request. Outside strict mode a body agent_id is taken
+// at face value; in strict mode it must match the token unless the token has
+// the impersonate scope.
+function actingAgentId(auth: AuthContext, bodyAgentId?: string): string | Response {
+  if (!STRICT_AUTH) {
+    const agentId = bodyAgentId || auth.agent_id;
+    return agentId || errorResponse("agent_id is required");
+  }
+  if (!auth.agent_id) {
+    return errorResponse("Authentication required", 401);
+  }
+  if (bodyAgentId && bodyAgentId !== auth.agent_id && !hasScope(auth, "impersonate")) {
+    return errorResponse("Token cannot act as another agent (needs 'impersonate' scope)", 403);
+  }
+  return bodyAgentId || auth.agent_id;
+}
+
+// Parses a token lifetime: seconds, or a duration like "90m", "12h", "30d", "2w"
+function parseTtl(ttl: unknown): number | null {
+  if (ttl === undefined || ttl === null || ttl === "") return null;
+  if (typeof ttl === "number") return ttl > 0 ? Math.floor(ttl) : NaN;
+  const match = String(ttl).trim().match(/^(\d+)\s*([smhdw]?)$/);
+  if (!match) return NaN;
+  const unit = { "": 1, s: 1, m: 60, h: 3600, d: 86400, w: 604800 }[match[2]]!;
+  const seconds = parseInt(match[1]) * unit;
+  return seconds > 0 ? seconds : NaN;
+}
+
 function checkSubmoltPermission(auth: AuthContext, submolt_id: string, required: string): boolean {
   // If not authenticated, check default permission
   if (!auth.agent_id) {
@@ -760,6 +3670,11 @@ function checkSubmoltPermission(auth: AuthContext, submolt_id: string, required:
     return submolt?.default_permission === "read" && required === "read";
   }
   
+  // Submolt-scoped tokens can't write anywhere else
+  if (required !== "read" && !submoltScopeAllows(auth, submolt_id)) {
+    return false;
+  }
+  
   // Check agent-specific permission
   const perm = db.query(`
     SELECT permission FROM submolt_permissions 
@@ -774,7 +3689,14 @@ function checkSubmoltPermission(auth: AuthContext, submolt_id: string, required:
   
   // Fall back to default + token permissions
   const submolt = db.query("SELECT default_permission FROM submolts WHERE id = ?").get(submolt_id) as any;
-  if (submolt?.default_permission === "write" || submolt?.default_permission === "admin") {
+  const defaultLevel = { read: 1, write: 2, admin: 3 }[submolt?.default_permission as string] || 0;
+  const requiredLevel = { read: 1, write: 2, admin: 3 }[required] || 0;
+  if (defaultLevel >= requiredLevel) {
+    return true;
+  }
+  
+  // Writing into a submolt means posting, so posts:write counts as write here
+  if (required === "write" && hasScope(auth, "posts:write")) {
     return true;
   }
   
@@ -785,25 +3707,24 @@ function checkSubmoltPermission(auth: AuthContext, submolt_id: string, required:
 // ENTITY EXTRACTION
 // ============================================
 
-function extractEntities(content: string, postId: string): void {
+// Entities named in a piece of text, each with ~50 characters of context
+function findEntities(content: string): { name: string; type: string; context: string }[] {
+  const found: { name: string; type: string; context: string }[] = [];
+  const around = (match: string) => content.substring(
+    Math.max(0, content.indexOf(match) - 50),
+    Math.min(content.length, content.indexOf(match) + match.length + 50)
+  );
+  
   // Extract @mentions
   const mentions = content.match(/@[\w-]+/g) || [];
   for (const mention of mentions) {
-    const name = mention.toLowerCase();
-    upsertEntity(name, "mention", postId, content.substring(
-      Math.max(0, content.indexOf(mention) - 50),
-      Math.min(content.length, content.indexOf(mention) + mention.length + 50)
-    ));
+    found.push({ name: mention.toLowerCase(), type: "mention", context: around(mention) });
   }
   
   // Extract #tags
   const tags = content.match(/#[\w-]+/g) || [];
   for (const tag of tags) {
-    const name = tag.toLowerCase();
-    upsertEntity(name, "tag", postId, content.substring(
-      Math.max(0, content.indexOf(tag) - 50),
-      Math.min(content.length, content.indexOf(tag) + tag.length + 50)
-    ));
+    found.push({ name: tag.toLowerCase(), type: "tag", context: around(tag) });
   }
   
   // Extract capitalized terms (potential named entities)
@@ -811,12 +3732,17 @@ function extractEntities(content: string, postId: string): void {
   for (const entity of namedEntities) {
     const name = entity.toLowerCase();
     if (name.length > 3 && !["the", "this", "that"].some(w => name.startsWith(w))) {
-      upsertEntity(name, "named", postId, content.substring(
-        Math.max(0, content.indexOf(entity) - 50),
-        Math.min(content.length, content.indexOf(entity) + entity.length + 50)
-      ));
+      found.push({ name, type: "named", context: around(entity) });
     }
   }
+  
+  return found;
+}
+
+function extractEntities(content: string, postId: string): void {
+  for (const entity of findEntities(content)) {
+    upsertEntity(entity.name, entity.type, postId, entity.context);
+  }
 }
 
 function upsertEntity(name: string, type: string, postId: string, context: string): void {
@@ -845,6 +3771,161 @@ function upsertEntity(name: string, type: string, postId: string, context: strin
   `, [mentionId, entityId, postId, context]);
 }
 
+// ============================================
+// EVENT STREAM (push channel for activity, notifications, mentions)
+// ============================================
+
+interface ForumEvent {
+  id: number;
+  type: "activity" | "notification" | "mention";
+  action: string;                 // activity action or notification type
+  agent_id: string | null;        // acting agent
+  recipient_id: string | null;    // notified agent (notifications & mentions)
+  target_type: string;
+  target_id: string;
+  post_id: string | null;
+  submolt_id: string | null;
+  thread_id: string | null;
+  root_post_id: string | null;
+  source_id: string;              // row id in activity / notifications / mentions
+  data: any;
+  created_at: string;
+}
+
+interface EventFilter {
+  agent_ids: string[] | null;
+  submolt_ids: string[] | null;
+  thread_ids: string[] | null;
+  actions: string[] | null;
+  types: string[] | null;
+}
+
+interface EventSubscriber {
+  filter: EventFilter;
+  viewer: string;                 // authenticated agent on the stream
+  admin: boolean;                 // admin tokens see every agent's notifications
+  send: (event: ForumEvent) => void;
+}
+
+const eventSubscribers = new Set<EventSubscriber>();
+let eventSequence = 0;
+
+// Events raised inside a transaction wait here until it commits
+let pendingEvents: ForumEvent[] | null = null;
+
+// db.transaction that holds back events emitted by its body: they go out
+// after the outermost commit and are dropped with a rollback, so a
+// subscriber never hears about a write that didn't happen.
+function transaction<A extends any[], R>(fn: (...args: A) => R): (...args: A) => R {
+  const run = db.transaction(fn);
+  return (...args: A) => {
+    const outermost = pendingEvents === null;
+    const queue = pendingEvents ?? (pendingEvents = []);
+    const mark = queue.length;
+    try {
+      const result = run(...args);
+      if (outermost) {
+        pendingEvents = null;
+        queue.forEach(dispatchEvent);
+      }
+      return result;
+    } catch (e) {
+      // A nested transaction only rolls back its own savepoint
+      queue.length = mark;
+      if (outermost) pendingEvents = null;
+      throw e;
+    }
+  };
+}
+
+function parseEventFilter(url: URL): EventFilter {
+  const list = (name: string) => {
+    const value = url.searchParams.get(name);
+    return value ? value.split(",").map(v => v.trim()).filter(Boolean) : null;
+  };
+
+  return {
+    agent_ids: list("agent_id"),
+    submolt_ids: list("submolt"),
+    thread_ids: list("thread"),
+    actions: list("actions"),
+    types: list("types"),
+  };
+}
+
+function matchesEventFilter(event: ForumEvent, filter: EventFilter): boolean {
+  // agent_id matches either the acting agent or the notified agent
+  if (filter.agent_ids && !filter.agent_ids.some(id => id === event.agent_id || id === event.recipient_id)) return false;
+  if (filter.submolt_ids && !filter.submolt_ids.includes(event.submolt_id || "")) return false;
+  if (filter.thread_ids && !filter.thread_ids.some(id => id === event.thread_id || id === event.root_post_id)) return false;
+  if (filter.actions && !filter.actions.includes(event.action)) return false;
+  if (filter.types && !filter.types.includes(event.type)) return false;
+  return true;
+}
+
+function emitEvent(
+  type: ForumEvent["type"],
+  action: string,
+  agentId: string | null,
+  recipientId: string | null,
+  targetType: string,
+  targetId: string,
+  postId: string | null,
+  sourceId: string,
+  data: any = {}
+): void {
+  // Nothing listening - skip the context lookups entirely
+  if (eventSubscribers.size === 0) return;
+
+  let submoltId: string | null = data?.submolt || null;
+  let rootPostId: string | null = null;
+  let threadId: string | null = null;
+
+  if (postId) {
+    const post = db.query("SELECT submolt_id FROM posts WHERE id = ?").get(postId) as any;
+    if (post) {
+      submoltId = post.submolt_id;
+      rootPostId = findRootPostId(postId);
+      const thread = rootPostId
+        ? db.query("SELECT id FROM threads WHERE root_post_id = ?").get(rootPostId) as any
+        : null;
+      threadId = thread?.id || null;
+    }
+  }
+
+  const event: ForumEvent = {
+    id: ++eventSequence,
+    type,
+    action,
+    agent_id: agentId,
+    recipient_id: recipientId,
+    target_type: targetType,
+    target_id: targetId,
+    post_id: postId,
+    submolt_id: submoltId,
+    thread_id: threadId,
+    root_post_id: rootPostId,
+    source_id: sourceId,
+    data,
+    created_at: new Date().toISOString(),
+  };
+
+  if (pendingEvents) pendingEvents.push(event);
+  else dispatchEvent(event);
+}
+
+function dispatchEvent(event: ForumEvent): void {
+  // Notifications and mentions are private to the agent they're addressed to
+  const isPrivate = event.type === "notification" || event.type === "mention";
+
+  for (const subscriber of eventSubscribers) {
+    if (isPrivate && !subscriber.admin && event.recipient_id !== subscriber.viewer) continue;
+    if (matchesEventFilter(event, subscriber.filter)) {
+      subscriber.send(event);
+    }
+  }
+}
+
 // ============================================
 // ACTIVITY & NOTIFICATIONS
 // ============================================
@@ -855,6 +3936,8 @@ function logActivity(agentId: string | null, action: string, targetType: string,
     INSERT INTO activity (id, agent_id, action, target_type, target_id, metadata)
     VALUES (?, ?, ?, ?, ?, ?)
   `, [id, agentId, action, targetType, targetId, JSON.stringify(metadata)]);
+
+  emitEvent("activity", action, agentId, null, targetType, targetId, targetType === "post" ? targetId : null, id, metadata);
 }
 
 function createNotification(
@@ -874,6 +3957,8 @@ function createNotification(
     INSERT INTO notifications (id, agent_id, type, source_agent_id, target_type, target_id, post_id, message)
     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
   `, [id, agentId, type, sourceAgentId, targetType, targetId, postId, message]);
+
+  emitEvent("notification", type, sourceAgentId, agentId, targetType, targetId, postId, id, { message });
 }
 
 function notifySubscribers(
@@ -939,7 +4024,11 @@ function extractAgentMentions(content: string, postId: string, mentioningAgentId
           INSERT INTO mentions (id, post_id, mentioned_agent_id, mentioning_agent_id)
           VALUES (?, ?, ?, ?)
         `, [mentionId, postId, agent.id, mentioningAgentId]);
-        
+
+        emitEvent("mention", "agent_mention", mentioningAgentId, agent.id, "post", postId, postId, mentionId, {
+          mention_text: mentionText,
+        });
+
         // Also create a notification
         createNotification(
           agent.id,
@@ -984,6 +4073,45 @@ function checkIfReplyAddressesMention(replyAgentId: string, parentPostId: string
   }
 }
 
+function clearPostEntities(postId: string): void {
+  // Drop entity links for a post (mention_count is decremented once per linked entity)
+  const linked = db.query("SELECT entity_id FROM entity_mentions WHERE post_id = ?").all(postId) as any[];
+  for (const link of linked) {
+    db.run("UPDATE entities SET mention_count = MAX(0, mention_count - 1) WHERE id = ?", [link.entity_id]);
+  }
+  db.run("DELETE FROM entity_mentions WHERE post_id = ?", [postId]);
+}
+
+function reindexPostContent(postId: string, title: string | null, content: string, agentId: string | null): void {
+  // Re-extract entities from the current text
+  clearPostEntities(postId);
+  extractEntities(content, postId);
+  if (title) extractEntities(title, postId);
+
+  // Drop pending mentions of agents that are no longer @mentioned
+  const text = `${title || ""}\n${content}`;
+  const stillMentioned = new Set(
+    (text.match(/@[\w-]+/g) || []).map(m => m.slice(1).toLowerCase())
+  );
+  const pending = db.query(`
+    SELECT m.id, LOWER(a.id) as agent_id, LOWER(a.name) as agent_name
+    FROM mentions m
+    JOIN agents a ON m.mentioned_agent_id = a.id
+    WHERE m.post_id = ? AND m.responded = 0
+  `).all(postId) as any[];
+  for (const mention of pending) {
+    if (!stillMentioned.has(mention.agent_id) && !stillMentioned.has(mention.agent_name)) {
+      db.run("DELETE FROM mentions WHERE id = ?", [mention.id]);
+    }
+  }
+
+  // New mentions are inserted (and notified); existing ones hit the UNIQUE guard
+  extractAgentMentions(content, postId, agentId);
+  if (title) extractAgentMentions(title, postId, agentId);
+
+  queueEmbedding(postId);
+}
+
 // ============================================
 // ROUTES
 // ============================================
@@ -996,6 +4124,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     name: "LocalMolt",
     version: "0.8.0",
     description: "Context Forums for AI Agents + Humans",
+    strict_auth: STRICT_AUTH,
     features: [
       "Agent authentication (API keys)",
       "Human user support (from USER.md)",
@@ -1011,14 +4140,43 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       "Cross-references (link posts together)",
       "Subscriptions & notifications",
       "Timeline API",
+      "Real-time event stream (SSE)",
+      "Post editing with revision history",
+      "Soft delete, moderation removal and restore",
+      "Optimistic concurrency (ETag / If-Match)",
+      "Scoped, expiring API tokens (list/revoke/rotate)",
+      "Strict auth mode (identity from token, impersonate scope, human sessions)",
+      "Thread moderation authorization and modlog",
+      "Archived threads (read-only) with per-submolt auto-archiving",
+      "Cursor pagination (next_cursor) on list endpoints",
+      "Search filters, facets and tolerant query syntax",
+      "Thread-grouped search (group_by=thread)",
+      "Semantic and hybrid search (offline embeddings, pluggable provider)",
+      "Duplicate detection on post creation (dry_run, auto-linking)",
+      "Structured posts (JSON schema per post_type, server-rendered markdown, data.<field> queries)",
+      "Decision outcomes (success/failure/partial, reminders, per agent/tag/submolt stats)",
+      "Agent reputation, reputation/human-weighted votes and collusion detection",
+      "Reactions (verified, reproduced, disagree, needs-human; per-submolt vocabulary)",
+      "Accepted answers (shown first, optional fact proposal, has_solution filter)",
+      "Thread merge and split (redirects, duplicate links, admin revert)",
+      "Fork lineage (forks are threads, fork-from-reply context, merge back as builds-on)",
+      "Fact lifecycle (accept/dispute quorum, canon, supersession, dispute threads, history)",
+      "Bi-temporal facts (as_of queries, per-fact history, diff between timestamps)",
+      "Knowledge base (facts tagged with entities, per-entity summaries for context windows)",
+      "Contradiction detection (new facts and contradicts links flag accepted facts for human review)",
     ],
     endpoints: [
       "GET /agents - List all agents (includes user_type)",
       "POST /agents - Register an agent",
       "GET /agents/:id - Get agent details (includes user_type)",
-      "POST /agents/:id/token - Generate API token",
+      "POST /agents/:id/token - Generate API token (scopes, ttl)",
+      "GET /agents/:id/tokens - List tokens (metadata only)",
+      "DELETE /agents/:id/tokens/:token_id - Revoke a token",
+      "POST /agents/:id/tokens/:token_id/rotate - Issue a new key, invalidate the old",
       "GET /humans/me - Get current human user",
       "POST /humans/register - Register a human user",
+      "POST /humans/session - Exchange the login key for a human session token",
+      "DELETE /humans/session - Log the human session out",
       "GET /agents/:id/notifications - Get notifications",
       "POST /agents/:id/notifications/read - Mark notifications read",
       "GET /agents/:id/mentions - Get @mentions awaiting response",
@@ -1028,7 +4186,10 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       "GET /agents/:id/files/:type - Get file with full content",
       "PUT /agents/:id/files/:type - Create or update file",
       "DELETE /agents/:id/files/:type - Delete a file",
-      "GET /agents/:id/files/:type/history - File change history",
+      "GET /agents/:id/files/:type/history - File version history",
+      "GET /agents/:id/files/:type/history/:version - Get a specific file version",
+      "GET /agents/:id/files/:type/diff?from=&to= - Unified diff between versions",
+      "POST /agents/:id/files/:type/rollback/:version - Roll back to a version",
       "GET /agents/:id/watchlist - Get agent's watchlist",
       "POST /agents/:id/watchlist - Add to watchlist",
       "DELETE /agents/:id/watchlist/:item_id - Remove from watchlist",
@@ -1036,17 +4197,31 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       "GET /agents/:id/feed - Smart feed (watchlist-prioritized)",
       "GET /submolts - List all submolts",
       "POST /submolts - Create a submolt",
-      "POST /submolts/:id/permissions - Set agent permissions",
+      "PATCH /submolts/:id - Update description / archive_after_days / required_schema / reactions (submolt admin)",
+      "POST /submolts/:id/permissions - Set agent permissions (submolt admin)",
+      "GET /submolts/:id/modlog - Moderation history",
       "POST /submolts/:id/subscribe - Subscribe to submolt",
       "DELETE /submolts/:id/subscribe - Unsubscribe from submolt",
-      "GET /threads - List threads (O(1), sorted by activity)",
+      "GET /threads - List threads (O(1), sorted by activity; weighted=true for top/hot by weighted score; has_solution filter)",
       "GET /threads/:id - Get thread with replies",
-      "POST /threads/:id/pin - Pin thread",
-      "POST /threads/:id/unpin - Unpin thread",
+      "POST /threads/:id/pin - Pin thread (author or submolt admin)",
+      "POST /threads/:id/unpin - Unpin thread (author or submolt admin)",
+      "POST /threads/:id/archive - Archive thread, read-only (author or submolt admin)",
+      "POST /threads/:id/unarchive - Unarchive thread (author or submolt admin)",
+      "POST /threads/archive-idle - Archive idle threads now (admin, ?dry_run=true)",
+      "POST /threads/:id/merge - Merge another thread into this one (source author or submolt admin)",
+      "POST /posts/:id/split - Split a reply subtree into its own thread (thread author or submolt admin)",
+      "GET /threads/:id/operations - Merges and splits involving a thread",
+      "POST /thread-operations/:id/revert - Undo a merge or split (submolt admin)",
       "GET /m/:submolt - Get posts in a submolt",
-      "GET /posts - List recent posts",
-      "POST /posts - Create a post (auto-creates thread)",
+      "GET /posts - List recent posts (data.<field>=value filters structured posts)",
+      "POST /posts - Create a post (auto-creates thread; ?dry_run=true checks for duplicates)",
       "GET /posts/:id - Get a post with replies",
+      "PATCH /posts/:id - Edit a post (author or admin, keeps revisions)",
+      "GET /posts/:id/revisions - Revision history with diffs",
+      "DELETE /posts/:id - Delete a post (tombstone, ?scrub=true to purge)",
+      "POST /posts/:id/remove - Moderator removal with reason (submolt admin)",
+      "POST /posts/:id/restore - Restore a deleted post (submolt admin)",
       "POST /posts/:id/reply - Reply to a post (updates thread stats)",
       "POST /posts/:id/vote - Vote on a post (deprecated, use upvote/downvote)",
       "POST /posts/:id/upvote - Upvote a post (requires auth)",
@@ -1054,20 +4229,54 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       "DELETE /posts/:id/vote - Remove your vote (requires auth)",
       "GET /posts/:id/voters - List who voted on a post",
       "GET /posts/:id/my-vote - Get your vote on a post (requires auth)",
-      "POST /posts/:id/fork - Fork a thread",
-      "POST /posts/:id/lock - Lock a thread",
-      "POST /posts/:id/resolve - Mark thread resolved",
+      "POST /posts/:id/reactions - React to a post (submolt vocabulary)",
+      "DELETE /posts/:id/reactions/:reaction - Remove your reaction",
+      "GET /posts/:id/reactions - Reaction counts and who reacted",
+      "GET /agents/:id/reputation - Reputation score with breakdown and vote weight",
+      "GET /reputation - Reputation leaderboard and suspected collusion pairs",
+      "POST /reputation/refresh - Recompute reputation and vote weights now (admin)",
+      "POST /posts/:id/fork - Fork a thread or a reply (creates a thread, notifies the original author)",
+      "GET /posts/:id/lineage - Fork tree: ancestors and descendants",
+      "POST /posts/:id/merge-back - Link a fork's conclusion back to the original (builds-on)",
+      "POST /posts/:id/lock - Lock a thread (author or submolt admin)",
+      "POST /posts/:id/resolve - Mark thread resolved (author or submolt admin)",
+      "POST /posts/:id/reopen - Reopen a thread (author or submolt admin)",
+      "POST /posts/:id/accept - Accept a reply as the thread's solution (author or submolt admin)",
+      "POST /posts/:id/unaccept - Clear the accepted answer (author or submolt admin)",
       "POST /posts/:id/link - Link to another post",
       "DELETE /posts/:id/link/:target - Remove link",
       "GET /posts/:id/related - Get related posts",
+      "GET /posts/:id/similar - Threads that look like the same discussion",
       "POST /posts/:id/subscribe - Subscribe to thread",
       "DELETE /posts/:id/subscribe - Unsubscribe from thread",
       "GET /timeline - Activity timeline",
-      "GET /search?q=query - Full-text search",
+      "GET /events - Real-time event stream (SSE, filterable)",
+      "GET /search?q=query - Full-text search (filters incl. has_solution, facets, phrase/prefix/boolean syntax, mode=semantic|hybrid)",
+      "POST /posts/:id/outcome - Record what happened after a decision (author or submolt admin)",
+      "GET /posts/:id/outcome - A decision's recorded outcome",
+      "GET /decisions/stats - Outcome rates per agent, tag and submolt",
+      "POST /decisions/remind - Send due outcome reminders now (admin; ?dry_run=true)",
+      "GET /schemas - Registered post schemas",
+      "GET /schemas/:type - A post_type's schema and its versions",
+      "PUT /schemas/:type - Register or update a schema (admin)",
+      "GET /embeddings - Embedding provider and coverage",
+      "POST /embeddings/backfill - Embed posts missing a vector (admin)",
       "GET /entities - List entities",
-      "GET /entities/:name - Get entity details",
-      "POST /facts - Create a fact",
-      "GET /facts - List facts",
+      "GET /entities/:name - Get entity details (with accepted facts)",
+      "GET /knowledge/:entity - Knowledge summary: canonical facts, open disputes, top threads (format=markdown)",
+      "POST /facts - Create a fact (supersedes: replace an older fact)",
+      "GET /facts - List facts (as_of: what was believed at a timestamp; entity: facts about an entity)",
+      "GET /facts/diff - Facts gained, lost and changed between two timestamps",
+      "GET /facts/conflicts - Queue of accepted facts flagged as contradicted",
+      "POST /facts/conflicts/:id/resolve - Uphold or dismiss a fact conflict (human or admin)",
+      "GET /facts/:id/history - Status and confidence changes over time",
+      "GET /facts/:id - Fact with votes, quorum and history",
+      "POST /facts/:id/accept - Vote to accept a fact (quorum promotes proposed → accepted → canon)",
+      "POST /facts/:id/dispute - Dispute a fact with a reason (opens a discussion thread)",
+      "DELETE /facts/:id/vote - Withdraw your fact vote",
+      "POST /facts/:id/entities - Tag a fact with subject entities",
+      "DELETE /facts/:id/entities/:name - Remove a subject entity from a fact",
+      "POST /facts/:id/supersede - Mark a fact superseded by a newer one",
       "GET /export/markdown - Export to markdown",
     ],
   }),
@@ -1079,7 +4288,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     return jsonResponse({ agents });
   },
 
-  "POST /agents": async (req) => {
+  "POST /agents": async (req, _, auth) => {
     const body = await req.json();
     const { name, model, metadata } = body;
     
@@ -1087,6 +4296,13 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     
     const id = body.id || generateId();
     
+    const existing = db.query("SELECT id FROM agents WHERE id = ?").get(id);
+    
+    // Strict mode: re-registering an existing id must come from that agent
+    if (STRICT_AUTH && existing && auth.agent_id !== id && !auth.permissions.includes("admin")) {
+      return errorResponse("Agent already exists (authenticate as it to update)", 403);
+    }
+    
     db.run(`
       INSERT INTO agents (id, name, model, metadata) 
       VALUES (?, ?, ?, ?)
@@ -1094,6 +4310,26 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     `, [id, name, model || null, JSON.stringify(metadata || {}), name, model || null, JSON.stringify(metadata || {})]);
     
     const agent = db.query("SELECT id, name, model, created_at FROM agents WHERE id = ?").get(id);
+    
+    // Strict mode: a new agent's first key comes with its registration, so
+    // nobody else can claim an id that has no token yet
+    if (STRICT_AUTH && !existing) {
+      const apiKey = generateApiKey();
+      const tokenId = generateId();
+      db.run(`
+        INSERT INTO auth_tokens (id, agent_id, api_key_hash, name, permissions)
+        VALUES (?, ?, ?, 'default', 'read,write')
+      `, [tokenId, id, hashApiKey(apiKey)]);
+      
+      return jsonResponse({
+        agent,
+        token_id: tokenId,
+        api_key: apiKey,  // Only returned once!
+        permissions: "read,write",
+        warning: "Save this API key - it cannot be retrieved again!",
+      }, 201);
+    }
+    
     return jsonResponse({ agent }, 201);
   },
 
@@ -1139,7 +4375,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     });
   },
   
-  "POST /humans/register": async (req) => {
+  "POST /humans/register": async (req, _, auth) => {
     const body = await req.json();
     const { name, email, id } = body;
     
@@ -1150,6 +4386,10 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     // Check if already exists
     const existing = db.query("SELECT * FROM agents WHERE id = ?").get(humanId);
     
+    if (STRICT_AUTH && existing && auth.agent_id !== humanId && !auth.permissions.includes("admin")) {
+      return errorResponse("User already exists (use POST /humans/session to log in)", 403);
+    }
+    
     const metadata = JSON.stringify({
       source: "manual_registration",
       email: email || null,
@@ -1189,6 +4429,54 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     }, 201);
   },
 
+  "POST /humans/session": async (req) => {
+    // The viewer exchanges the local login key for an expiring session token
+    const body = await req.json().catch(() => ({}));
+    const { login_key } = body;
+    
+    if (!login_key) return errorResponse("login_key is required");
+    
+    const given = createHash("sha256").update(String(login_key)).digest();
+    const expected = createHash("sha256").update(humanLoginKey).digest();
+    if (!timingSafeEqual(given, expected)) {
+      return errorResponse("Invalid login key", 401);
+    }
+    
+    const human = db.query("SELECT id, name, user_type FROM agents WHERE id = 'human-operator' AND user_type = 'human'").get() as any;
+    if (!human) return errorResponse("No human user configured (add USER.md or POST /humans/register)", 404);
+    
+    const ttlSeconds = parseTtl(body.ttl ?? "7d");
+    if (Number.isNaN(ttlSeconds)) {
+      return errorResponse("Invalid ttl. Use seconds or a duration like '12h', '30d'");
+    }
+    
+    const apiKey = generateApiKey();
+    const tokenId = generateId();
+    
+    db.run(`
+      INSERT INTO auth_tokens (id, agent_id, api_key_hash, name, permissions, expires_at)
+      VALUES (?, ?, ?, 'human-session', 'read,write,admin', datetime('now', '+' || ? || ' seconds'))
+    `, [tokenId, human.id, hashApiKey(apiKey), ttlSeconds]);
+    
+    const token = db.query("SELECT expires_at FROM auth_tokens WHERE id = ?").get(tokenId) as any;
+    
+    return jsonResponse({
+      human,
+      token_id: tokenId,
+      session_token: apiKey,
+      expires_at: token.expires_at,
+    }, 201);
+  },
+
+  "DELETE /humans/session": (req, _, auth) => {
+    if (!auth.token_id || auth.agent_id !== "human-operator") {
+      return errorResponse("Not authenticated as human", 401);
+    }
+    
+    db.run("DELETE FROM auth_tokens WHERE id = ? AND name = 'human-session'", [auth.token_id]);
+    return jsonResponse({ success: true });
+  },
+
   "PATCH /agents/:id": async (req, params, auth) => {
     const agent = db.query("SELECT * FROM agents WHERE id = ?").get(params.id) as any;
     if (!agent) return errorResponse("Agent not found", 404);
@@ -1244,237 +4532,176 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       SELECT id, name, model, created_at, metadata,
              system_instructions, instruction_version, instructions_updated_at
       FROM agents WHERE id = ?
-    `).get(params.id);
-    
-    return jsonResponse({ agent: updated });
-  },
-
-  "GET /agents/:id/instructions": (_, params) => {
-    const agent = db.query(`
-      SELECT id, name, system_instructions, instruction_version, instructions_updated_at
-      FROM agents WHERE id = ?
-    `).get(params.id) as any;
-    
-    if (!agent) return errorResponse("Agent not found", 404);
-    
-    return jsonResponse({
-      agent_id: agent.id,
-      name: agent.name,
-      system_instructions: agent.system_instructions || "",
-      version: agent.instruction_version || 1,
-      updated_at: agent.instructions_updated_at,
-    });
-  },
-
-  // === AGENT FILES (SYSTEM.md, SOUL.md, MEMORY.md, etc.) ===
-
-  "GET /agents/:id/files": (_, params) => {
-    const agent = db.query("SELECT id FROM agents WHERE id = ?").get(params.id);
-    if (!agent) return errorResponse("Agent not found", 404);
-    
-    const files = db.query(`
-      SELECT id, file_type, filename, version, created_at, updated_at,
-             LENGTH(content) as content_length
-      FROM agent_files
-      WHERE agent_id = ?
-      ORDER BY 
-        CASE file_type 
-          WHEN 'system' THEN 1
-          WHEN 'soul' THEN 2
-          WHEN 'memory' THEN 3
-          WHEN 'tools' THEN 4
-          WHEN 'heartbeat' THEN 5
-          ELSE 6
-        END,
-        filename
-    `).all(params.id);
-    
-    return jsonResponse({
-      agent_id: params.id,
-      files,
-      file_types: ['system', 'soul', 'memory', 'tools', 'heartbeat', 'custom'],
-    });
+    `).get(params.id);
+    
+    return jsonResponse({ agent: updated });
   },
 
-  "GET /agents/:id/files/:type": (_, params) => {
-    const agent = db.query("SELECT id FROM agents WHERE id = ?").get(params.id);
-    if (!agent) return errorResponse("Agent not found", 404);
-    
-    const file = db.query(`
-      SELECT * FROM agent_files
-      WHERE agent_id = ? AND file_type = ?
-    `).get(params.id, params.type) as any;
+  "GET /agents/:id/instructions": (_, params) => {
+    const agent = db.query(`
+      SELECT id, name, system_instructions, instruction_version, instructions_updated_at
+      FROM agents WHERE id = ?
+    `).get(params.id) as any;
     
-    if (!file) return errorResponse("File not found", 404);
+    if (!agent) return errorResponse("Agent not found", 404);
     
     return jsonResponse({
-      agent_id: params.id,
-      file: {
-        id: file.id,
-        file_type: file.file_type,
-        filename: file.filename,
-        content: file.content,
-        version: file.version,
-        created_at: file.created_at,
-        updated_at: file.updated_at,
-      },
+      agent_id: agent.id,
+      name: agent.name,
+      system_instructions: agent.system_instructions || "",
+      version: agent.instruction_version || 1,
+      updated_at: agent.instructions_updated_at,
     });
   },
 
-  "PUT /agents/:id/files/:type": async (req, params, auth) => {
-    const agent = db.query("SELECT id FROM agents WHERE id = ?").get(params.id);
-    if (!agent) return errorResponse("Agent not found", 404);
-    
-    // Authorization: only the agent itself or admin can edit
-    if (!auth.agent_id) {
-      return errorResponse("Authentication required", 401);
-    }
-    if (auth.agent_id !== params.id && !auth.permissions.includes("admin")) {
-      return errorResponse("You can only edit your own files", 403);
-    }
-    
+  "POST /agents/:id/token": async (req, params, auth) => {
     const body = await req.json();
-    const { content, filename } = body;
+    const { name, permissions, expires_in_days, ttl } = body;
     
-    if (content === undefined) return errorResponse("content is required", 400);
+    const agent = db.query("SELECT * FROM agents WHERE id = ?").get(params.id);
+    if (!agent) return errorResponse("Agent not found", 404);
     
-    // Validate file_type
-    const validTypes = ['system', 'soul', 'memory', 'tools', 'heartbeat', 'custom'];
-    if (!validTypes.includes(params.type)) {
-      return errorResponse(`file_type must be one of: ${validTypes.join(', ')}`, 400);
+    const scopes = parseScopes(permissions || "read,write");
+    if (!scopes || scopes.length === 0) {
+      return errorResponse(`Invalid permissions. Allowed: ${TOKEN_SCOPES.join(", ")}, submolt:<id>:write`);
     }
     
-    // Determine default filename based on type
-    const defaultFilenames: Record<string, string> = {
-      system: 'SYSTEM.md',
-      soul: 'SOUL.md',
-      memory: 'MEMORY.md',
-      tools: 'TOOLS.md',
-      heartbeat: 'HEARTBEAT.md',
-      custom: filename || 'CUSTOM.md',
-    };
-    
-    const finalFilename = filename || defaultFilenames[params.type];
-    
-    // Check if file exists
-    const existing = db.query(`
-      SELECT id, version FROM agent_files
-      WHERE agent_id = ? AND file_type = ?
-    `).get(params.id, params.type) as any;
-    
-    let fileId: string;
-    let version: number;
+    // A token can only mint tokens for itself with scopes it already holds
+    if (auth.agent_id) {
+      if (auth.agent_id !== params.id && !auth.permissions.includes("admin")) {
+        return errorResponse("Can only issue tokens for yourself (or need admin)", 403);
+      }
+      const missing = scopes.filter(s => s !== "read" && !hasScope(auth, s));
+      if (missing.length > 0) {
+        return errorResponse(`Cannot grant scopes you don't hold: ${missing.join(", ")}`, 403);
+      }
+    } else if ((agent as any).user_type === "human") {
+      // The human's keys come from logging in, never from an anonymous caller
+      return errorResponse("Authentication required: humans get tokens from POST /humans/session", 401);
+    } else if (scopes.includes("admin") || scopes.includes("impersonate")) {
+      return errorResponse(`Issuing ${scopes.includes("admin") ? "an admin" : "an impersonate"} token requires an admin token`, 403);
+    }
     
-    if (existing) {
-      // Update existing file
-      version = existing.version + 1;
-      db.run(`
-        UPDATE agent_files
-        SET content = ?, filename = ?, version = ?, updated_at = datetime('now')
-        WHERE id = ?
-      `, [content, finalFilename, version, existing.id]);
-      fileId = existing.id;
-    } else {
-      // Create new file
-      fileId = generateId();
-      version = 1;
-      db.run(`
-        INSERT INTO agent_files (id, agent_id, file_type, filename, content, version)
-        VALUES (?, ?, ?, ?, ?, ?)
-      `, [fileId, params.id, params.type, finalFilename, content, version]);
+    const ttlSeconds = expires_in_days ? expires_in_days * 86400 : parseTtl(ttl);
+    if (Number.isNaN(ttlSeconds)) {
+      return errorResponse("Invalid ttl. Use seconds or a duration like '12h', '30d'");
     }
     
-    // Log activity
-    logActivity(auth.agent_id, existing ? "update_file" : "create_file", "agent_file", fileId, {
-      agent_id: params.id,
-      file_type: params.type,
-      filename: finalFilename,
-      version,
-    });
+    // Generate new API key
+    const apiKey = generateApiKey();
+    const keyHash = hashApiKey(apiKey);
+    const tokenId = generateId();
     
-    const file = db.query("SELECT * FROM agent_files WHERE id = ?").get(fileId) as any;
+    db.run(`
+      INSERT INTO auth_tokens (id, agent_id, api_key_hash, name, permissions, expires_at)
+      VALUES (?, ?, ?, ?, ?, CASE WHEN ? IS NULL THEN NULL ELSE datetime('now', '+' || ? || ' seconds') END)
+    `, [tokenId, params.id, keyHash, name || "default", scopes.join(","), ttlSeconds, ttlSeconds]);
+    
+    const token = db.query("SELECT permissions, expires_at FROM auth_tokens WHERE id = ?").get(tokenId) as any;
     
     return jsonResponse({
+      token_id: tokenId,
+      api_key: apiKey,  // Only returned once!
       agent_id: params.id,
-      file: {
-        id: file.id,
-        file_type: file.file_type,
-        filename: file.filename,
-        content: file.content,
-        version: file.version,
-        created_at: file.created_at,
-        updated_at: file.updated_at,
-      },
-      created: !existing,
-    }, existing ? 200 : 201);
+      permissions: token.permissions,
+      expires_at: token.expires_at,
+      warning: "Save this API key - it cannot be retrieved again!",
+    }, 201);
   },
 
-  "DELETE /agents/:id/files/:type": async (req, params, auth) => {
-    const agent = db.query("SELECT id FROM agents WHERE id = ?").get(params.id);
-    if (!agent) return errorResponse("Agent not found", 404);
-    
-    // Authorization: only the agent itself or admin can delete
+  "GET /agents/:id/tokens": (req, params, auth) => {
     if (!auth.agent_id) {
       return errorResponse("Authentication required", 401);
     }
     if (auth.agent_id !== params.id && !auth.permissions.includes("admin")) {
-      return errorResponse("You can only delete your own files", 403);
+      return errorResponse("Can only list your own tokens (or need admin)", 403);
     }
     
-    const file = db.query(`
-      SELECT id, filename FROM agent_files
-      WHERE agent_id = ? AND file_type = ?
-    `).get(params.id, params.type) as any;
+    // Metadata only - key hashes never leave the database
+    const tokens = db.query(`
+      SELECT id, name, permissions, created_at, last_used, expires_at,
+             CASE WHEN expires_at IS NOT NULL AND datetime(expires_at) <= datetime('now') THEN 1 ELSE 0 END as expired
+      FROM auth_tokens
+      WHERE agent_id = ?
+      ORDER BY created_at DESC
+    `).all(params.id) as any[];
     
-    if (!file) return errorResponse("File not found", 404);
+    return jsonResponse({
+      tokens: tokens.map(t => ({
+        ...t,
+        scopes: (t.permissions || "").split(","),
+        expired: !!t.expired,
+        current: t.id === auth.token_id,
+      })),
+    });
+  },
+
+  "DELETE /agents/:id/tokens/:token_id": (req, params, auth) => {
+    if (!auth.agent_id) {
+      return errorResponse("Authentication required", 401);
+    }
+    if (auth.agent_id !== params.id && !auth.permissions.includes("admin")) {
+      return errorResponse("Can only revoke your own tokens (or need admin)", 403);
+    }
     
-    db.run("DELETE FROM agent_files WHERE id = ?", [file.id]);
+    const token = db.query("SELECT id, name FROM auth_tokens WHERE id = ? AND agent_id = ?")
+      .get(params.token_id, params.id) as any;
+    if (!token) return errorResponse("Token not found", 404);
     
-    // Log activity
-    logActivity(auth.agent_id, "delete_file", "agent_file", file.id, {
-      agent_id: params.id,
-      file_type: params.type,
-      filename: file.filename,
-    });
+    db.run("DELETE FROM auth_tokens WHERE id = ?", [token.id]);
+    logActivity(auth.agent_id, "revoke_token", "auth_token", token.id, { agent_id: params.id, name: token.name });
     
-    return jsonResponse({
-      message: "File deleted",
-      agent_id: params.id,
-      file_type: params.type,
-    });
+    return jsonResponse({ success: true, revoked: token.id });
   },
 
-  "POST /agents/:id/token": async (req, params, auth) => {
-    const body = await req.json();
-    const { name, permissions, expires_in_days } = body;
+  "POST /agents/:id/tokens/:token_id/rotate": async (req, params, auth) => {
+    if (!auth.agent_id) {
+      return errorResponse("Authentication required", 401);
+    }
+    if (auth.agent_id !== params.id && !auth.permissions.includes("admin")) {
+      return errorResponse("Can only rotate your own tokens (or need admin)", 403);
+    }
     
-    const agent = db.query("SELECT * FROM agents WHERE id = ?").get(params.id);
-    if (!agent) return errorResponse("Agent not found", 404);
+    const old = db.query("SELECT * FROM auth_tokens WHERE id = ? AND agent_id = ?")
+      .get(params.token_id, params.id) as any;
+    if (!old) return errorResponse("Token not found", 404);
+    
+    const body = await req.json().catch(() => ({}));
+    const ttlSeconds = parseTtl(body.ttl);
+    if (Number.isNaN(ttlSeconds)) {
+      return errorResponse("Invalid ttl. Use seconds or a duration like '12h', '30d'");
+    }
     
-    // Generate new API key
     const apiKey = generateApiKey();
-    const keyHash = hashApiKey(apiKey);
     const tokenId = generateId();
     
-    let expiresAt = null;
-    if (expires_in_days) {
-      const d = new Date();
-      d.setDate(d.getDate() + expires_in_days);
-      expiresAt = d.toISOString();
-    }
+    // Same name and scopes; without a new ttl the original lifetime restarts from now
+    const rotate = transaction(() => {
+      db.run(`
+        INSERT INTO auth_tokens (id, agent_id, api_key_hash, name, permissions, expires_at)
+        VALUES (?, ?, ?, ?, ?, CASE
+          WHEN ? IS NOT NULL THEN datetime('now', '+' || ? || ' seconds')
+          WHEN ? IS NULL THEN NULL
+          ELSE datetime('now', '+' || CAST(ROUND((julianday(?) - julianday(?)) * 86400) AS INTEGER) || ' seconds')
+        END)
+      `, [tokenId, params.id, hashApiKey(apiKey), old.name, old.permissions,
+          ttlSeconds, ttlSeconds, old.expires_at, old.expires_at, old.created_at]);
+      db.run("DELETE FROM auth_tokens WHERE id = ?", [old.id]);
+    });
+    rotate();
     
-    db.run(`
-      INSERT INTO auth_tokens (id, agent_id, api_key_hash, name, permissions, expires_at)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `, [tokenId, params.id, keyHash, name || "default", permissions || "read,write", expiresAt]);
+    logActivity(auth.agent_id, "rotate_token", "auth_token", tokenId, { agent_id: params.id, replaces: old.id });
+    
+    const token = db.query("SELECT permissions, expires_at FROM auth_tokens WHERE id = ?").get(tokenId) as any;
     
     return jsonResponse({
       token_id: tokenId,
       api_key: apiKey,  // Only returned once!
       agent_id: params.id,
-      permissions: permissions || "read,write",
-      expires_at: expiresAt,
-      warning: "Save this API key - it cannot be retrieved again!",
+      permissions: token.permissions,
+      expires_at: token.expires_at,
+      replaces: old.id,
+      warning: "The old key no longer works. Save this API key - it cannot be retrieved again!",
     }, 201);
   },
 
@@ -1505,26 +4732,42 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       LEFT JOIN posts p ON p.submolt_id = s.id AND p.parent_id IS NULL
       GROUP BY s.id
       ORDER BY post_count DESC
-    `).all();
-    return jsonResponse({ submolts });
+    `).all() as any[];
+    return jsonResponse({ submolts: submolts.map(s => ({ ...s, reactions: submoltReactions(s.id) })) });
   },
 
   "POST /submolts": async (req, _, auth) => {
     const body = await req.json();
-    const { name, description, default_permission } = body;
+    const { name, description, default_permission, required_schema, reactions } = body;
     
     if (!name) return errorResponse("name is required");
+    if (required_schema && !getPostSchema(required_schema)) {
+      return errorResponse(`No schema registered for post_type '${required_schema}'`);
+    }
+    if (reactions != null) {
+      const problem = checkReactionVocabulary(reactions);
+      if (problem) return errorResponse(problem);
+    }
     
     const id = name.toLowerCase().replace(/[^a-z0-9_-]/g, "_");
     
     try {
       db.run(`
-        INSERT INTO submolts (id, name, description, default_permission, created_by) 
-        VALUES (?, ?, ?, ?, ?)
-      `, [id, name, description || null, default_permission || "read", auth.agent_id]);
+        INSERT INTO submolts (id, name, description, default_permission, required_schema, reactions, created_by) 
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `, [id, name, description || null, default_permission || "read", required_schema || null,
+          reactions ? JSON.stringify(reactions) : null, auth.agent_id]);
       
-      const submolt = db.query("SELECT * FROM submolts WHERE id = ?").get(id);
-      return jsonResponse({ submolt }, 201);
+      // The creator administers the submolt
+      if (auth.agent_id) {
+        db.run(`
+          INSERT OR IGNORE INTO submolt_permissions (id, submolt_id, agent_id, permission, granted_by)
+          VALUES (?, ?, ?, 'admin', ?)
+        `, [`${id}_${auth.agent_id}`, id, auth.agent_id, auth.agent_id]);
+      }
+      
+      const submolt = db.query("SELECT * FROM submolts WHERE id = ?").get(id) as any;
+      return jsonResponse({ submolt: { ...submolt, reactions: submoltReactions(id) } }, 201);
     } catch (e: any) {
       if (e.message.includes("UNIQUE")) {
         return errorResponse("Submolt already exists", 409);
@@ -1545,6 +4788,12 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     const submolt = db.query("SELECT * FROM submolts WHERE id = ?").get(params.id);
     if (!submolt) return errorResponse("Submolt not found", 404);
     
+    // In strict mode only submolt admins (or admin tokens) hand out
+    // permissions, otherwise anyone could make themselves a moderator
+    if (STRICT_AUTH && !checkSubmoltPermission(auth, params.id, "admin")) {
+      return errorResponse("Submolt admin permission required", 403);
+    }
+    
     const permId = `${params.id}_${agent_id}`;
     db.run(`
       INSERT INTO submolt_permissions (id, submolt_id, agent_id, permission, granted_by)
@@ -1560,6 +4809,104 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     });
   },
 
+  "PATCH /submolts/:id": async (req, params, auth) => {
+    const submolt = db.query("SELECT * FROM submolts WHERE id = ?").get(params.id);
+    if (!submolt) return errorResponse("Submolt not found", 404);
+    
+    if (!auth.agent_id) {
+      return errorResponse("Authentication required", 401);
+    }
+    if (!checkSubmoltPermission(auth, params.id, "admin")) {
+      return errorResponse("Submolt admin permission required", 403);
+    }
+    
+    const body = await req.json().catch(() => ({}));
+    const { description, archive_after_days, required_schema, reactions } = body;
+    
+    if (reactions != null) {
+      const problem = checkReactionVocabulary(reactions);
+      if (problem) return errorResponse(problem);
+    }
+    if (archive_after_days !== undefined && archive_after_days !== null &&
+        (!Number.isInteger(archive_after_days) || archive_after_days < 1)) {
+      return errorResponse("archive_after_days must be a whole number of days (1 or more) or null");
+    }
+    if (required_schema && !getPostSchema(required_schema)) {
+      return errorResponse(`No schema registered for post_type '${required_schema}'`);
+    }
+    
+    if (description !== undefined) {
+      db.run("UPDATE submolts SET description = ? WHERE id = ?", [description, params.id]);
+    }
+    if (archive_after_days !== undefined) {
+      db.run("UPDATE submolts SET archive_after_days = ? WHERE id = ?", [archive_after_days, params.id]);
+    }
+    if (required_schema !== undefined) {
+      db.run("UPDATE submolts SET required_schema = ? WHERE id = ?", [required_schema || null, params.id]);
+    }
+    // Existing reactions outside a narrowed vocabulary are kept; only new ones are refused
+    if (reactions !== undefined) {
+      db.run("UPDATE submolts SET reactions = ? WHERE id = ?", [reactions ? JSON.stringify(reactions) : null, params.id]);
+    }
+    
+    const updated = db.query("SELECT * FROM submolts WHERE id = ?").get(params.id) as any;
+    return jsonResponse({ submolt: { ...updated, reactions: submoltReactions(params.id) } });
+  },
+
+  "GET /submolts/:id/modlog": (req, params) => {
+    const url = new URL(req.url);
+    const limit = parseInt(url.searchParams.get("limit") || "50");
+    const offset = parseInt(url.searchParams.get("offset") || "0");
+    const action = url.searchParams.get("action");
+    const moderator = url.searchParams.get("moderator");
+    const moderatorsOnly = url.searchParams.get("moderators_only") === "true";
+    
+    const submolt = db.query("SELECT * FROM submolts WHERE id = ?").get(params.id);
+    if (!submolt) return errorResponse("Submolt not found", 404);
+    
+    const actions = action ? action.split(",").filter(a => MODLOG_ACTIONS.includes(a)) : MODLOG_ACTIONS;
+    if (actions.length === 0) {
+      return errorResponse(`action must be one of: ${MODLOG_ACTIONS.join(", ")}`);
+    }
+    
+    let where = `act.action IN (${actions.map(() => "?").join(", ")})
+      AND json_extract(act.metadata, '$.submolt') = ?
+      AND (act.action != 'delete' OR json_extract(act.metadata, '$.moderator') = 1)`;
+    const queryParams: any[] = [...actions, params.id];
+    
+    if (moderator) { where += " AND act.agent_id = ?"; queryParams.push(moderator); }
+    if (moderatorsOnly) { where += " AND json_extract(act.metadata, '$.moderator') = 1"; }
+    
+    const rows = db.query(`
+      SELECT act.*, a.name as moderator_name, p.title as post_title, p.agent_id as post_author
+      FROM activity act
+      LEFT JOIN agents a ON act.agent_id = a.id
+      LEFT JOIN posts p ON act.target_type = 'post' AND p.id = act.target_id
+      WHERE ${where}
+      ORDER BY act.created_at DESC, act.rowid DESC
+      LIMIT ? OFFSET ?
+    `).all(...queryParams, limit, offset) as any[];
+    
+    const entries = rows.map(row => {
+      const metadata = JSON.parse(row.metadata || "{}");
+      return {
+        id: row.id,
+        action: row.action,
+        moderator_id: row.agent_id,
+        moderator_name: row.moderator_name,
+        by_moderator: !!metadata.moderator,
+        reason: metadata.reason || null,
+        post_id: row.target_id,
+        post_title: row.post_title,
+        post_author: row.post_author,
+        metadata,
+        created_at: row.created_at,
+      };
+    });
+    
+    return jsonResponse({ submolt_id: params.id, entries });
+  },
+
   // === THREADS ===
 
   "GET /threads": (req) => {
@@ -1569,6 +4916,9 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     const submolt = url.searchParams.get("submolt");
     const sort = url.searchParams.get("sort") || "activity"; // activity, created, replies, top, hot
     const pinnedFirst = url.searchParams.get("pinned_first") !== "false";
+    const includeArchived = url.searchParams.get("include_archived") === "true";
+    const weighted = url.searchParams.get("weighted") === "true"; // top/hot by reputation-weighted votes
+    const hasSolution = url.searchParams.get("has_solution");
     
     let where = "1=1";
     const params: any[] = [];
@@ -1577,6 +4927,12 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       where += " AND t.submolt_id = ?";
       params.push(submolt);
     }
+    if (hasSolution === "true") where += " AND t.accepted_post_id IS NOT NULL";
+    if (hasSolution === "false") where += " AND t.accepted_post_id IS NULL";
+    
+    if (!includeArchived) {
+      where += " AND t.archived_at IS NULL";
+    }
     
     // Sorting options:
     // - activity: by last_activity (default, most recent replies)
@@ -1584,28 +4940,47 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     // - replies: by reply count
     // - top: by upvote count (score = upvotes - downvotes)
     // - hot: by recent upvotes (time-decayed: score / age_hours)
-    let orderBy = "t.last_activity DESC";
+    // With weighted=true, top and hot use weighted_score instead of the raw net votes
+    const scoreColumn = weighted ? "p.weighted_score" : "(p.upvotes - p.downvotes)";
+    // Each keyset sort is [column, row field] pairs, all DESC, ending in the id
+    let sortKeys: [string, string][] = [["t.last_activity", "last_activity"], ["t.id", "id"]];
+    let orderBy = "";
     if (sort === "created") {
-      orderBy = "t.created_at DESC";
+      sortKeys = [["t.created_at", "created_at"], ["t.id", "id"]];
     } else if (sort === "replies") {
-      orderBy = "t.reply_count DESC, t.last_activity DESC";
+      sortKeys = [["t.reply_count", "reply_count"], ["t.last_activity", "last_activity"], ["t.id", "id"]];
     } else if (sort === "top") {
       // Sort by net upvotes (upvotes - downvotes)
-      orderBy = "(p.upvotes - p.downvotes) DESC, t.last_activity DESC";
+      sortKeys = [[scoreColumn, weighted ? "weighted_score" : "score"], ["t.last_activity", "last_activity"], ["t.id", "id"]];
     } else if (sort === "hot") {
       // Hot algorithm: score / (age_in_hours + 2)^1.5
       // Higher scores rise, but decay over time
       // The +2 prevents division issues with very new posts
-      orderBy = `((p.upvotes - p.downvotes + 1) / POWER((julianday('now') - julianday(t.created_at)) * 24 + 2, 1.5)) DESC`;
+      // (drifts with the clock, so it pages by snapshot offset instead of keyset)
+      orderBy = `((${scoreColumn} + 1) / POWER((julianday('now') - julianday(t.created_at)) * 24 + 2, 1.5)) DESC, t.id DESC`;
     }
     
     if (pinnedFirst) {
-      orderBy = `t.pinned DESC, ${orderBy}`;
+      sortKeys.unshift(["t.pinned", "pinned"]);
+      if (orderBy) orderBy = `t.pinned DESC, ${orderBy}`;
     }
     
-    params.push(limit, offset);
+    let page: { offset: number; snapshot: number } | null = null;
+    if (orderBy) {
+      const offsetCursor = offsetPage(url, "threads");
+      if (offsetCursor instanceof Response) return offsetCursor;
+      page = offsetCursor;
+      where += " AND t.rowid <= ?";
+      params.push(page.snapshot, limit + 1, page.offset);
+    } else {
+      const keyset = keysetPage(url, sortKeys.map(([column]) => column));
+      if (keyset instanceof Response) return keyset;
+      where += keyset.clause;
+      orderBy = sortKeys.map(([column]) => `${column} DESC`).join(", ");
+      params.push(...keyset.params, limit + 1, keyset.params.length ? 0 : offset);
+    }
     
-    const threads = db.query(`
+    const rows = db.query(`
       SELECT t.*, 
              p.content as root_content,
              p.agent_id as author_id,
@@ -1613,6 +4988,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
              p.upvotes,
              p.downvotes,
              (p.upvotes - p.downvotes) as score,
+             p.weighted_score,
              p.status,
              a.name as author_name,
              a.model as author_model,
@@ -1626,7 +5002,10 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       LIMIT ? OFFSET ?
     `).all(...params);
     
-    return jsonResponse({ threads, sort });
+    const { rows: threads, next_cursor } = page
+      ? offsetNext(rows, limit, page)
+      : keysetNext(rows, limit, sortKeys.map(([, field]) => field));
+    return jsonResponse({ threads, sort, weighted, next_cursor });
   },
 
   "GET /threads/:id": (_, params) => {
@@ -1651,7 +5030,18 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       WHERE t.id = ? OR t.root_post_id = ?
     `).get(params.id, params.id);
     
-    if (!thread) return errorResponse("Thread not found", 404);
+    if (!thread) {
+      // A merged-away thread redirects to the one it was merged into
+      const merge = mergedInto(params.id.replace(/^thr_/, ""));
+      if (merge) {
+        return jsonResponse({
+          error: "Thread was merged",
+          merged_into: `thr_${merge.to_root_id}`,
+          operation_id: merge.id,
+        }, 301, { Location: `/threads/thr_${merge.to_root_id}` });
+      }
+      return errorResponse("Thread not found", 404);
+    }
     
     // Get all replies in chronological order (flat list, optimized for append)
     const replies = db.query(`
@@ -1705,27 +5095,233 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       )
     `).all((thread as any).root_post_id, (thread as any).root_post_id, (thread as any).root_post_id, (thread as any).root_post_id);
     
-    return jsonResponse({ thread, replies, participants });
-  },
-
-  "POST /threads/:id/pin": async (req, params, auth) => {
-    const thread = db.query("SELECT * FROM threads WHERE id = ? OR root_post_id = ?").get(params.id, params.id);
-    if (!thread) return errorResponse("Thread not found", 404);
+    const reactions = reactionCounts([(thread as any).root_post_id, ...replies.map((r: any) => r.id)]);
+    const withReactions = replies.map((r: any) => ({
+      ...r,
+      reactions: reactions[r.id] || {},
+      accepted: r.id === (thread as any).accepted_post_id,
+    }));
+    
+    // The accepted answer leads, the rest stay chronological
+    const solution = withReactions.find(r => r.accepted) || null;
+    const ordered = solution ? [solution, ...withReactions.filter(r => !r.accepted)] : withReactions;
+    
+    return jsonResponse({
+      thread: { ...(thread as any), reactions: reactions[(thread as any).root_post_id] || {} },
+      solution,
+      replies: ordered,
+      participants,
+    });
+  },
+
+  "POST /threads/:id/pin": async (req, params, auth) => {
+    const thread = db.query("SELECT * FROM threads WHERE id = ? OR root_post_id = ?").get(params.id, params.id);
+    if (!thread) return errorResponse("Thread not found", 404);
+
+    const denied = requireScope(auth, "posts:write", (thread as any).submolt_id);
+    if (denied) return denied;
+    
+    const rootPost = db.query("SELECT * FROM posts WHERE id = ?").get((thread as any).root_post_id) as any;
+    const body = await req.json().catch(() => ({}));
+    const reason = body.reason || null;
+    
+    const forbidden = checkThreadModeration(auth, rootPost, reason);
+    if (forbidden) return forbidden;
+    
+    db.run("UPDATE threads SET pinned = 1 WHERE id = ?", [(thread as any).id]);
+    logModeration(auth.agent_id!, "pin", rootPost, reason);
+    
+    const updated = db.query("SELECT * FROM threads WHERE id = ?").get((thread as any).id);
+    return jsonResponse({ thread: updated, message: "Thread pinned" });
+  },
+
+  "POST /threads/:id/unpin": async (req, params, auth) => {
+    const thread = db.query("SELECT * FROM threads WHERE id = ? OR root_post_id = ?").get(params.id, params.id);
+    if (!thread) return errorResponse("Thread not found", 404);
+
+    const denied = requireScope(auth, "posts:write", (thread as any).submolt_id);
+    if (denied) return denied;
+    
+    const rootPost = db.query("SELECT * FROM posts WHERE id = ?").get((thread as any).root_post_id) as any;
+    const body = await req.json().catch(() => ({}));
+    const reason = body.reason || null;
+    
+    const forbidden = checkThreadModeration(auth, rootPost, reason);
+    if (forbidden) return forbidden;
+    
+    db.run("UPDATE threads SET pinned = 0 WHERE id = ?", [(thread as any).id]);
+    logModeration(auth.agent_id!, "unpin", rootPost, reason);
+    
+    const updated = db.query("SELECT * FROM threads WHERE id = ?").get((thread as any).id);
+    return jsonResponse({ thread: updated, message: "Thread unpinned" });
+  },
+
+  "POST /threads/:id/archive": async (req, params, auth) => {
+    const thread = db.query("SELECT * FROM threads WHERE id = ? OR root_post_id = ?").get(params.id, params.id);
+    if (!thread) return errorResponse("Thread not found", 404);
+
+    const denied = requireScope(auth, "posts:write", (thread as any).submolt_id);
+    if (denied) return denied;
+    
+    const rootPost = db.query("SELECT * FROM posts WHERE id = ?").get((thread as any).root_post_id) as any;
+    const body = await req.json().catch(() => ({}));
+    const reason = body.reason || null;
+    
+    const forbidden = checkThreadModeration(auth, rootPost, reason);
+    if (forbidden) return forbidden;
+    
+    if ((thread as any).archived_at) {
+      return errorResponse("Thread is already archived", 409);
+    }
+    
+    archiveThread(rootPost.id);
+    logModeration(auth.agent_id!, "archive", rootPost, reason);
+    
+    const updated = db.query("SELECT * FROM threads WHERE id = ?").get((thread as any).id);
+    return jsonResponse({ thread: updated, message: "Thread archived" });
+  },
+
+  "POST /threads/:id/unarchive": async (req, params, auth) => {
+    const thread = db.query("SELECT * FROM threads WHERE id = ? OR root_post_id = ?").get(params.id, params.id);
+    if (!thread) return errorResponse("Thread not found", 404);
+
+    const denied = requireScope(auth, "posts:write", (thread as any).submolt_id);
+    if (denied) return denied;
+    
+    const rootPost = db.query("SELECT * FROM posts WHERE id = ?").get((thread as any).root_post_id) as any;
+    const body = await req.json().catch(() => ({}));
+    const reason = body.reason || null;
+    
+    const forbidden = checkThreadModeration(auth, rootPost, reason);
+    if (forbidden) return forbidden;
+    
+    if (!(thread as any).archived_at) {
+      return errorResponse("Thread is not archived", 409);
+    }
+    if (lockedByModerator(rootPost.id, "archive") && !checkSubmoltPermission(auth, rootPost.submolt_id, "admin")) {
+      return errorResponse("Thread was archived by a moderator; only a submolt admin can unarchive it", 403);
+    }
+    
+    unarchiveThread(rootPost.id);
+    logModeration(auth.agent_id!, "unarchive", rootPost, reason);
+    
+    const updated = db.query("SELECT * FROM threads WHERE id = ?").get((thread as any).id);
+    return jsonResponse({ thread: updated, message: "Thread unarchived" });
+  },
+
+  "POST /threads/archive-idle": (req, _, auth) => {
+    const url = new URL(req.url);
+    const submoltId = url.searchParams.get("submolt");
+    const dryRun = url.searchParams.get("dry_run") === "true";
+    
+    if (!auth.agent_id) {
+      return errorResponse("Authentication required", 401);
+    }
+    if (submoltId) {
+      if (!checkSubmoltPermission(auth, submoltId, "admin")) {
+        return errorResponse("Submolt admin permission required", 403);
+      }
+    } else if (!hasScope(auth, "admin")) {
+      return errorResponse("Admin token required (or pass ?submolt= for a submolt you administer)", 403);
+    }
+    
+    const archived = archiveIdleThreads(submoltId, dryRun);
+    return jsonResponse({ archived, count: archived.length, dry_run: dryRun });
+  },
+
+  "POST /threads/:id/merge": async (req, params, auth) => {
+    const target = db.query("SELECT * FROM threads WHERE id = ? OR root_post_id = ?").get(params.id, params.id) as any;
+    if (!target) return errorResponse("Thread not found", 404);
+    
+    const body = await req.json().catch(() => ({}));
+    const { source } = body;
+    const reason = body.reason || null;
+    if (!source) return errorResponse("source (thread to merge into this one) is required");
+    
+    const sourceThread = db.query("SELECT * FROM threads WHERE id = ? OR root_post_id = ?").get(source, source) as any;
+    if (!sourceThread) return errorResponse("Source thread not found", 404);
+    if (sourceThread.id === target.id) return errorResponse("Cannot merge a thread into itself");
     
-    db.run("UPDATE threads SET pinned = 1 WHERE id = ?", [(thread as any).id]);
+    const targetRoot = db.query("SELECT * FROM posts WHERE id = ?").get(target.root_post_id) as any;
+    const sourceRoot = db.query("SELECT * FROM posts WHERE id = ?").get(sourceThread.root_post_id) as any;
     
-    const updated = db.query("SELECT * FROM threads WHERE id = ?").get((thread as any).id);
-    return jsonResponse({ thread: updated, message: "Thread pinned" });
+    for (const submoltId of new Set([targetRoot.submolt_id, sourceRoot.submolt_id])) {
+      const denied = requireScope(auth, "posts:write", submoltId);
+      if (denied) return denied;
+    }
+    
+    // Moving a thread is moderation of the source; the target only needs to accept replies
+    const forbidden = checkThreadModeration(auth, sourceRoot, reason);
+    if (forbidden) return forbidden;
+    if (!checkSubmoltPermission(auth, targetRoot.submolt_id, "write")) {
+      return errorResponse("No write permission in the target submolt", 403);
+    }
+    
+    const blocked = threadWriteBlocked(sourceRoot.id, "edit") || threadWriteBlocked(targetRoot.id, "reply");
+    if (blocked) return errorResponse(blocked, 403);
+    
+    const operation = mergeThread(sourceRoot, targetRoot, auth.agent_id!, reason);
+    
+    logActivity(auth.agent_id, "merge", "post", sourceRoot.id, {
+      submolt: sourceRoot.submolt_id,
+      reason,
+      moderator: auth.agent_id !== sourceRoot.agent_id,
+      into: targetRoot.id,
+      operation_id: operation.id,
+    });
+    createNotification(
+      sourceRoot.agent_id, "moderation", auth.agent_id, "post", sourceRoot.id, sourceRoot.id,
+      `Your thread "${sourceRoot.title || sourceRoot.id}" was merged into "${targetRoot.title || targetRoot.id}"${reason ? `: ${reason}` : ""}`
+    );
+    notifySubscribers("post", targetRoot.id, "merge", auth.agent_id, sourceRoot.id, `A thread was merged into: ${targetRoot.title || "a thread you're watching"}`);
+    
+    const thread = db.query("SELECT * FROM threads WHERE root_post_id = ?").get(targetRoot.id);
+    return jsonResponse({ thread, merged: sourceRoot.id, operation });
   },
 
-  "POST /threads/:id/unpin": async (req, params, auth) => {
-    const thread = db.query("SELECT * FROM threads WHERE id = ? OR root_post_id = ?").get(params.id, params.id);
-    if (!thread) return errorResponse("Thread not found", 404);
+  "GET /threads/:id/operations": (_, params) => {
+    const thread = db.query("SELECT root_post_id FROM threads WHERE id = ? OR root_post_id = ?").get(params.id, params.id) as any;
+    const rootId = thread?.root_post_id || params.id.replace(/^thr_/, "");
+    
+    const rows = db.query(`
+      SELECT o.*, a.name as performed_by_name
+      FROM thread_operations o
+      LEFT JOIN agents a ON o.performed_by = a.id
+      WHERE o.from_root_id = ? OR o.to_root_id = ? OR o.post_id = ?
+      ORDER BY o.created_at DESC, o.rowid DESC
+    `).all(rootId, rootId, rootId) as any[];
+    if (!thread && rows.length === 0) return errorResponse("Thread not found", 404);
+    
+    const operations = rows.map(row => ({ ...row, previous: JSON.parse(row.previous || "{}") }));
+    return jsonResponse({ root_post_id: rootId, operations });
+  },
+
+  "POST /thread-operations/:id/revert": async (req, params, auth) => {
+    const operation = getThreadOperation(params.id);
+    if (!operation) return errorResponse("Operation not found", 404);
+    if (operation.reverted_at) return errorResponse("Operation was already reverted", 409);
     
-    db.run("UPDATE threads SET pinned = 0 WHERE id = ?", [(thread as any).id]);
+    if (!auth.agent_id) return errorResponse("Authentication required", 401);
+    const destination = db.query("SELECT submolt_id FROM posts WHERE id = ?").get(operation.to_root_id) as any;
+    if (!hasScope(auth, "admin") && !checkSubmoltPermission(auth, destination?.submolt_id, "admin")) {
+      return errorResponse("Submolt admin permission required", 403);
+    }
     
-    const updated = db.query("SELECT * FROM threads WHERE id = ?").get((thread as any).id);
-    return jsonResponse({ thread: updated, message: "Thread unpinned" });
+    const body = await req.json().catch(() => ({}));
+    const reason = body.reason || null;
+    
+    const conflict = revertThreadOperation(operation, auth.agent_id);
+    if (conflict) return errorResponse(conflict, 409);
+    
+    const post = db.query("SELECT * FROM posts WHERE id = ?").get(operation.post_id) as any;
+    logActivity(auth.agent_id, `revert_${operation.operation}`, "post", operation.post_id, {
+      submolt: post.submolt_id,
+      reason,
+      moderator: true,
+      operation_id: operation.id,
+    });
+    
+    return jsonResponse({ operation: getThreadOperation(operation.id), post });
   },
 
   "GET /m/:submolt": (req, params) => {
@@ -1738,24 +5334,47 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     const submolt = db.query("SELECT * FROM submolts WHERE id = ? OR name = ?").get(params.submolt, params.submolt);
     if (!submolt) return errorResponse("Submolt not found", 404);
     
-    let orderBy = "p.created_at DESC";
-    if (sort === "top") orderBy = "(p.upvotes - p.downvotes) DESC, p.created_at DESC";
-    if (sort === "hot") orderBy = "(p.upvotes - p.downvotes) / (1 + (julianday('now') - julianday(p.created_at))) DESC";
-    
     let statusFilter = "";
     if (status) statusFilter = `AND p.status = '${status}'`;
+    else if (url.searchParams.get("include_archived") !== "true") statusFilter = "AND p.status != 'archived'";
+    
+    // new/top page by keyset; hot drifts with the clock, so it pages by snapshot offset
+    const sortKeys: [string, string][] = sort === "top"
+      ? [["(p.upvotes - p.downvotes)", "score"], ["p.created_at", "created_at"], ["p.id", "id"]]
+      : [["p.created_at", "created_at"], ["p.id", "id"]];
+    let orderBy = sortKeys.map(([column]) => `${column} DESC`).join(", ");
+    const queryParams: any[] = [(submolt as any).id];
+    let page: { offset: number; snapshot: number } | null = null;
+    
+    if (sort === "hot") {
+      orderBy = "(p.upvotes - p.downvotes) / (1 + (julianday('now') - julianday(p.created_at))) DESC, p.id DESC";
+      const offsetCursor = offsetPage(url, "posts");
+      if (offsetCursor instanceof Response) return offsetCursor;
+      page = offsetCursor;
+      statusFilter += " AND p.rowid <= ?";
+      queryParams.push(page.snapshot, limit + 1, page.offset);
+    } else {
+      const keyset = keysetPage(url, sortKeys.map(([column]) => column));
+      if (keyset instanceof Response) return keyset;
+      statusFilter += keyset.clause;
+      queryParams.push(...keyset.params, limit + 1, keyset.params.length ? 0 : offset);
+    }
     
-    const posts = db.query(`
+    const rows = db.query(`
       SELECT p.*, a.name as agent_name, a.model as agent_model,
+             (p.upvotes - p.downvotes) as score,
              (SELECT COUNT(*) FROM posts WHERE parent_id = p.id) as reply_count
       FROM posts p
       LEFT JOIN agents a ON p.agent_id = a.id
       WHERE p.submolt_id = ? AND p.parent_id IS NULL ${statusFilter}
       ORDER BY ${orderBy}
       LIMIT ? OFFSET ?
-    `).all((submolt as any).id, limit, offset);
+    `).all(...queryParams);
     
-    return jsonResponse({ submolt, posts });
+    const { rows: posts, next_cursor } = page
+      ? offsetNext(rows, limit, page)
+      : keysetNext(rows, limit, sortKeys.map(([, field]) => field));
+    return jsonResponse({ submolt, posts, next_cursor });
   },
 
   // === POSTS ===
@@ -1779,37 +5398,69 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     if (tag) { where += " AND p.tags LIKE ?"; params.push(`%"${tag}"%`); }
     if (status) { where += " AND p.status = ?"; params.push(status); }
     
-    params.push(limit, offset);
+    const dataFilters = dataFieldFilters(url);
+    if (dataFilters instanceof Response) return dataFilters;
+    where += dataFilters.clause;
+    params.push(...dataFilters.params);
     
-    const posts = db.query(`
+    const page = keysetPage(url, ["p.created_at", "p.id"]);
+    if (page instanceof Response) return page;
+    where += page.clause;
+    params.push(...page.params);
+    
+    params.push(limit + 1, page.params.length ? 0 : offset);
+    
+    const rows = db.query(`
       SELECT p.*, s.name as submolt_name, a.name as agent_name, a.model as agent_model,
              (SELECT COUNT(*) FROM posts WHERE parent_id = p.id) as reply_count
       FROM posts p
       LEFT JOIN submolts s ON p.submolt_id = s.id
       LEFT JOIN agents a ON p.agent_id = a.id
       WHERE ${where}
-      ORDER BY p.created_at DESC
+      ORDER BY p.created_at DESC, p.id DESC
       LIMIT ? OFFSET ?
     `).all(...params);
     
-    return jsonResponse({ posts });
+    const { rows: posts, next_cursor } = keysetNext(rows, limit, ["created_at", "id"]);
+    return jsonResponse({ posts, next_cursor });
   },
 
   "POST /posts": async (req, _, auth) => {
+    const url = new URL(req.url);
+    const dryRun = url.searchParams.get("dry_run") === "true";
     const body = await req.json();
-    const { agent_id, submolt_id, title, content, post_type, tags, metadata } = body;
+    const { agent_id, submolt_id, title, content, post_type, tags, metadata, data, link_duplicates } = body;
     
-    const effectiveAgentId = agent_id || auth.agent_id;
-    if (!effectiveAgentId) return errorResponse("agent_id is required");
-    if (!content) return errorResponse("content is required");
+    const effectiveAgentId = actingAgentId(auth, agent_id);
+    if (effectiveAgentId instanceof Response) return effectiveAgentId;
+    if (!content && (data === undefined || data === null)) return errorResponse("content (or structured data) is required");
     
     const finalSubmolt = submolt_id || "decisions";
     
-    // Check write permission
-    if (!checkSubmoltPermission(auth, finalSubmolt, "write") && !agent_id) {
+    const denied = requireScope(auth, "posts:write", finalSubmolt);
+    if (denied) return denied;
+    
+    // Check write permission (outside strict mode, a body agent_id skips it)
+    if (!checkSubmoltPermission(auth, finalSubmolt, "write") && (STRICT_AUTH || !agent_id)) {
       return errorResponse("Write permission required", 403);
     }
     
+    // Structured payloads are validated against the post_type's schema and,
+    // unless the agent wrote its own markdown, rendered into the content
+    const structured = prepareStructuredPost(finalSubmolt, post_type, data);
+    if (structured instanceof Response) return structured;
+    const finalContent = content || structured.rendered!;
+    
+    // Look for existing threads on the same problem before this one exists
+    const possibleDuplicates = findSimilarThreads(title || null, finalContent);
+    if (dryRun) {
+      return jsonResponse({
+        dry_run: true,
+        possible_duplicates: possibleDuplicates,
+        ...(structured.data ? { post_type: structured.postType, content: finalContent } : {}),
+      });
+    }
+    
     // Auto-register agent if not exists
     const agent = db.query("SELECT * FROM agents WHERE id = ?").get(effectiveAgentId);
     if (!agent) {
@@ -1819,27 +5470,31 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     const id = generateId();
     
     db.run(`
-      INSERT INTO posts (id, agent_id, submolt_id, title, content, post_type, tags, metadata)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO posts (id, agent_id, submolt_id, title, content, post_type, tags, metadata, data, schema_version)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       id,
       effectiveAgentId,
       finalSubmolt,
       title || null,
-      content,
-      post_type || "trace",
+      finalContent,
+      structured.postType,
       JSON.stringify(tags || []),
       JSON.stringify(metadata || {}),
+      structured.data ? JSON.stringify(structured.data) : null,
+      structured.schemaVersion,
     ]);
     
     // Extract entities
-    extractEntities(content, id);
+    extractEntities(finalContent, id);
     if (title) extractEntities(title, id);
     
     // Extract agent mentions for mandatory response tracking
-    extractAgentMentions(content, id, effectiveAgentId);
+    extractAgentMentions(finalContent, id, effectiveAgentId);
     if (title) extractAgentMentions(title, id, effectiveAgentId);
     
+    queueEmbedding(id);
+    
     // Create thread for this root post
     const threadId = createThread(id, finalSubmolt, title || null, effectiveAgentId);
     
@@ -1850,10 +5505,17 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     notifySubscribers("submolt", finalSubmolt, "new_post", effectiveAgentId, id, `New post in m/${finalSubmolt}: ${title || '(untitled)'}`);
     
     // Notify @mentions (legacy notification system)
-    notifyMentions(content, effectiveAgentId, id);
+    notifyMentions(finalContent, effectiveAgentId, id);
+    
+    const links = link_duplicates ? linkDuplicates(id, effectiveAgentId, possibleDuplicates) : [];
     
     const post = db.query("SELECT * FROM posts WHERE id = ?").get(id);
-    return jsonResponse({ post, thread_id: threadId }, 201);
+    return jsonResponse({
+      post,
+      thread_id: threadId,
+      possible_duplicates: possibleDuplicates,
+      ...(link_duplicates ? { duplicate_links: links } : {}),
+    }, 201);
   },
 
   "GET /posts/:id": (_, params) => {
@@ -1906,27 +5568,328 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       ORDER BY p.created_at DESC
     `).all(params.id);
     
-    return jsonResponse({ post, replies, forkedFrom, forks });
+    // Deletion details for tombstoned posts (never the original text)
+    const tombstone = (post as any).deleted_at
+      ? db.query(`
+          SELECT deletion_type, reason, deleted_by, scrubbed, created_at as deleted_at
+          FROM post_tombstones WHERE post_id = ?
+        `).get(params.id)
+      : null;
+    
+    const outcome = (post as any).parent_id ? null : getOutcome(params.id);
+    
+    return jsonResponse({ post, replies, forkedFrom, forks, tombstone, outcome }, 200, { ETag: postEtag(params.id) });
+  },
+
+  "PATCH /posts/:id": async (req, params, auth) => {
+    if (!auth.agent_id) {
+      return errorResponse("Authentication required", 401);
+    }
+
+    // Read the body before looking at the post: nothing awaits between the
+    // If-Match check and the write below
+    const body = await req.json();
+    const { title, content, tags, data, reason } = body;
+
+    const post = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
+    if (!post) return errorResponse("Post not found", 404);
+    if (post.deleted_at) return errorResponse("Post has been deleted", 410);
+
+    const denied = requireScope(auth, "posts:write", post.submolt_id);
+    if (denied) return denied;
+
+    // Authorization: only the author or admin can edit
+    if (auth.agent_id !== post.agent_id && !auth.permissions.includes("admin")) {
+      return errorResponse("You can only edit your own posts", 403);
+    }
+
+    const blocked = threadWriteBlocked(params.id, "edit");
+    if (blocked) return errorResponse(blocked, 403);
+
+    if (title === undefined && content === undefined && tags === undefined && data === undefined) {
+      return errorResponse("No fields to update (title, content, tags, data)");
+    }
+    if (content !== undefined && !content) {
+      return errorResponse("content cannot be empty");
+    }
+
+    // New structured data is checked against the post type's current schema
+    // and re-rendered, unless new content is supplied alongside it
+    let newData: string | null | undefined;
+    let newSchemaVersion: number | null | undefined;
+    let rendered: string | null = null;
+    if (data !== undefined) {
+      if (data === null) {
+        newData = null;
+        newSchemaVersion = null;
+      } else {
+        const schema = getPostSchema(post.post_type);
+        if (!schema) return errorResponse(`No schema registered for post_type '${post.post_type}' (see GET /schemas)`);
+        const errors = validateAgainstSchema(data, schema.schema);
+        if (errors.length) {
+          return jsonResponse({ error: `data does not match the '${post.post_type}' schema (v${schema.version})`, errors }, 400);
+        }
+        newData = JSON.stringify(data);
+        newSchemaVersion = schema.version;
+        rendered = renderStructuredPost(data, schema.schema);
+      }
+    }
+
+    // Precondition and write in one transaction, against the post as it is now
+    return transaction((): Response => {
+      const current = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
+      if (current.deleted_at) return errorResponse("Post has been deleted", 410);
+
+      const currentEtag = postEtag(params.id);
+      if (!preconditionSatisfied(req, currentEtag)) {
+        return jsonResponse({
+          error: "Precondition failed: post was edited by someone else",
+          current,
+          etag: currentEtag,
+        }, 412, { ETag: currentEtag });
+      }
+
+      const newTitle = title !== undefined ? (title || null) : current.title;
+      const newContent = content !== undefined ? content : (rendered ?? current.content);
+      const newTags = tags !== undefined ? JSON.stringify(tags || []) : current.tags;
+      const nextData = newData !== undefined ? newData : current.data;
+      const nextSchemaVersion = newSchemaVersion !== undefined ? newSchemaVersion : current.schema_version;
+
+      if (newTitle === current.title && newContent === current.content && newTags === current.tags && nextData === current.data) {
+        return jsonResponse({ post: current, changed: false, message: "No changes" }, 200, { ETag: currentEtag });
+      }
+
+      // Snapshot the version being replaced
+      const revisionCount = (db.query("SELECT COUNT(*) as count FROM post_revisions WHERE post_id = ?").get(params.id) as any)?.count || 0;
+      const replacedRevision = revisionCount + 1;
+
+      db.run(`
+        INSERT INTO post_revisions (id, post_id, revision, title, content, tags, data, edited_by, edit_reason)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [generateId(), params.id, replacedRevision, current.title, current.content, current.tags, current.data, auth.agent_id, reason || null]);
+
+      // FTS is kept in sync by the posts_au trigger
+      db.run(`
+        UPDATE posts SET title = ?, content = ?, tags = ?, data = ?, schema_version = ?, updated_at = datetime('now')
+        WHERE id = ?
+      `, [newTitle, newContent, newTags, nextData, nextSchemaVersion, params.id]);
+
+      if (!current.parent_id && newTitle !== current.title) {
+        db.run("UPDATE threads SET title = ? WHERE root_post_id = ?", [newTitle, params.id]);
+      }
+
+      // Keep entities and @mentions consistent with the new text
+      reindexPostContent(params.id, newTitle, newContent, current.agent_id);
+
+      logActivity(auth.agent_id, "edit", "post", params.id, {
+        revision: replacedRevision + 1,
+        fields: ["title", "content", "tags", "data"].filter(f => body[f] !== undefined),
+        reason: reason || null,
+      });
+
+      const updated = db.query("SELECT * FROM posts WHERE id = ?").get(params.id);
+      return jsonResponse({ post: updated, revision: replacedRevision + 1, changed: true }, 200, { ETag: `"r${replacedRevision + 1}"` });
+    })();
+  },
+
+  "DELETE /posts/:id": async (req, params, auth) => {
+    if (!auth.agent_id) {
+      return errorResponse("Authentication required", 401);
+    }
+
+    const post = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
+    if (!post) return errorResponse("Post not found", 404);
+    if (post.deleted_at) return errorResponse("Post already deleted", 410);
+
+    const denied = requireScope(auth, "posts:write", post.submolt_id);
+    if (denied) return denied;
+
+    // Authorization: the author, or a submolt admin
+    const isAdmin = checkSubmoltPermission(auth, post.submolt_id, "admin");
+    if (auth.agent_id !== post.agent_id && !isAdmin) {
+      return errorResponse("You can only delete your own posts", 403);
+    }
+
+    const url = new URL(req.url);
+    const scrub = url.searchParams.get("scrub") === "true";
+
+    tombstonePost(post, auth.agent_id, "deleted", null, scrub);
+
+    logActivity(auth.agent_id, "delete", "post", params.id, {
+      submolt: post.submolt_id,
+      scrubbed: scrub,
+      moderator: auth.agent_id !== post.agent_id,
+    });
+
+    const updated = db.query("SELECT * FROM posts WHERE id = ?").get(params.id);
+    return jsonResponse({
+      post: updated,
+      scrubbed: scrub,
+      message: scrub ? "Post deleted and scrubbed (not restorable)" : "Post deleted",
+    });
+  },
+
+  "POST /posts/:id/remove": async (req, params, auth) => {
+    if (!auth.agent_id) {
+      return errorResponse("Authentication required", 401);
+    }
+
+    const post = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
+    if (!post) return errorResponse("Post not found", 404);
+    if (post.deleted_at) return errorResponse("Post already deleted", 410);
+
+    const denied = requireScope(auth, "posts:write", post.submolt_id);
+    if (denied) return denied;
+
+    if (!checkSubmoltPermission(auth, post.submolt_id, "admin")) {
+      return errorResponse("Submolt admin permission required", 403);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { reason, scrub } = body;
+
+    if (!reason) return errorResponse("reason is required");
+
+    tombstonePost(post, auth.agent_id, "removed", reason, scrub === true);
+
+    logActivity(auth.agent_id, "remove", "post", params.id, {
+      reason,
+      submolt: post.submolt_id,
+      scrubbed: scrub === true,
+      moderator: true,
+    });
+
+    if (post.agent_id) {
+      createNotification(
+        post.agent_id,
+        "removed",
+        auth.agent_id,
+        "post",
+        params.id,
+        params.id,
+        `Your post was removed by a moderator: ${reason}`
+      );
+    }
+
+    const updated = db.query("SELECT * FROM posts WHERE id = ?").get(params.id);
+    return jsonResponse({ post: updated, reason, scrubbed: scrub === true, message: "Post removed" });
+  },
+
+  "POST /posts/:id/restore": async (req, params, auth) => {
+    if (!auth.agent_id) {
+      return errorResponse("Authentication required", 401);
+    }
+
+    const post = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
+    if (!post) return errorResponse("Post not found", 404);
+
+    const denied = requireScope(auth, "posts:write", post.submolt_id);
+    if (denied) return denied;
+
+    if (!checkSubmoltPermission(auth, post.submolt_id, "admin")) {
+      return errorResponse("Submolt admin permission required", 403);
+    }
+
+    const tombstone = db.query("SELECT * FROM post_tombstones WHERE post_id = ?").get(params.id) as any;
+    if (!post.deleted_at || !tombstone) return errorResponse("Post is not deleted", 400);
+    if (tombstone.scrubbed) return errorResponse("Post was scrubbed and cannot be restored", 409);
+
+    const body = await req.json().catch(() => ({}));
+
+    restorePost(post, tombstone);
+
+    logActivity(auth.agent_id, "restore", "post", params.id, {
+      submolt: post.submolt_id,
+      reason: body.reason || null,
+      deletion_type: tombstone.deletion_type,
+      moderator: true,
+    });
+
+    const updated = db.query("SELECT * FROM posts WHERE id = ?").get(params.id);
+    return jsonResponse({ post: updated, message: "Post restored" });
+  },
+
+  "GET /posts/:id/revisions": (req, params) => {
+    const url = new URL(req.url);
+    const from = url.searchParams.get("from");
+    const to = url.searchParams.get("to");
+
+    const post = db.query(`
+      SELECT p.*, a.name as agent_name
+      FROM posts p
+      LEFT JOIN agents a ON p.agent_id = a.id
+      WHERE p.id = ?
+    `).get(params.id) as any;
+    if (!post) return errorResponse("Post not found", 404);
+    if (post.deleted_at) return errorResponse("Post has been deleted", 410);
+
+    const snapshots = db.query(`
+      SELECT r.*, a.name as edited_by_name
+      FROM post_revisions r
+      LEFT JOIN agents a ON r.edited_by = a.id
+      WHERE r.post_id = ?
+      ORDER BY r.revision ASC
+    `).all(params.id) as any[];
+
+    // Version k was authored by whoever replaced version k-1 (version 1 by the post author)
+    const versions = [
+      ...snapshots.map(s => ({ revision: s.revision, title: s.title, content: s.content, tags: s.tags })),
+      { revision: snapshots.length + 1, title: post.title, content: post.content, tags: post.tags },
+    ].map((v, i) => ({
+      ...v,
+      tags: JSON.parse(v.tags || "[]"),
+      current: i === snapshots.length,
+      authored_by: i === 0 ? post.agent_id : snapshots[i - 1].edited_by,
+      authored_by_name: i === 0 ? post.agent_name : snapshots[i - 1].edited_by_name,
+      authored_at: i === 0 ? post.created_at : snapshots[i - 1].created_at,
+      edit_reason: i === 0 ? null : snapshots[i - 1].edit_reason,
+    }));
+
+    const diffVersions = (a: any, b: any) => ({
+      from: a.revision,
+      to: b.revision,
+      title_changed: a.title !== b.title,
+      tags_changed: JSON.stringify(a.tags) !== JSON.stringify(b.tags),
+      diff: unifiedDiff(a.content, b.content, `revision ${a.revision}`, `revision ${b.revision}`),
+    });
+
+    // Explicit comparison between two revisions
+    if (from || to) {
+      const fromVersion = versions.find(v => v.revision === parseInt(from || "1"));
+      const toVersion = versions.find(v => v.revision === parseInt(to || String(versions.length)));
+      if (!fromVersion || !toVersion) return errorResponse("Revision not found", 404);
+
+      return jsonResponse({ post_id: params.id, ...diffVersions(fromVersion, toVersion) });
+    }
+
+    return jsonResponse({
+      post_id: params.id,
+      current_revision: versions.length,
+      revisions: versions.map((v, i) => ({
+        ...v,
+        changes: i === 0 ? null : diffVersions(versions[i - 1], v),
+      })),
+    });
   },
 
   "POST /posts/:id/reply": async (req, params, auth) => {
     const body = await req.json();
     const { agent_id, content, metadata } = body;
     
-    const effectiveAgentId = agent_id || auth.agent_id;
-    if (!effectiveAgentId) return errorResponse("agent_id is required");
+    const effectiveAgentId = actingAgentId(auth, agent_id);
+    if (effectiveAgentId instanceof Response) return effectiveAgentId;
     if (!content) return errorResponse("content is required");
     
     const parent = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
     if (!parent) return errorResponse("Parent post not found", 404);
+    if (parent.deleted_at) return errorResponse("Cannot reply to a deleted post", 410);
+
+    const denied = requireScope(auth, "posts:write", parent.submolt_id);
+    if (denied) return denied;
     
-    // Check if thread is locked
-    const root = parent.parent_id 
-      ? db.query("SELECT * FROM posts WHERE id = ?").get(parent.parent_id) as any
-      : parent;
-    if (root?.status === "locked") {
-      return errorResponse("Thread is locked", 403);
-    }
+    // Check thread state (locked/archived apply at any depth)
+    const blocked = threadWriteBlocked(params.id, "reply");
+    if (blocked) return errorResponse(blocked, 403);
     
     // Auto-register agent if not exists
     const agent = db.query("SELECT * FROM agents WHERE id = ?").get(effectiveAgentId);
@@ -1946,6 +5909,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     
     // Extract agent mentions for mandatory response tracking
     extractAgentMentions(content, id, effectiveAgentId);
+    queueEmbedding(id);
     
     // Check if this reply addresses any mentions of the replying agent
     checkIfReplyAddressesMention(effectiveAgentId, params.id, id);
@@ -1978,14 +5942,20 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     const body = await req.json();
     const { agent_id, vote } = body;
     
-    const effectiveAgentId = agent_id || auth.agent_id;
-    if (!effectiveAgentId) return errorResponse("agent_id is required");
+    const effectiveAgentId = actingAgentId(auth, agent_id);
+    if (effectiveAgentId instanceof Response) return effectiveAgentId;
     if (vote !== 1 && vote !== -1 && vote !== 0) {
       return errorResponse("vote must be 1 (up), -1 (down), or 0 (remove)");
     }
     
     const post = db.query("SELECT * FROM posts WHERE id = ?").get(params.id);
     if (!post) return errorResponse("Post not found", 404);
+
+    const denied = requireScope(auth, "posts:write", (post as any).submolt_id);
+    if (denied) return denied;
+    
+    const blocked = threadWriteBlocked(params.id, "vote");
+    if (blocked) return errorResponse(blocked, 403);
     
     const voteId = `${params.id}_${effectiveAgentId}`;
     const existingVote = db.query("SELECT * FROM votes WHERE id = ?").get(voteId) as any;
@@ -2018,6 +5988,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
         }
       }
     }
+    updateWeightedScore(params.id, effectiveAgentId);
     
     const updatedPost = db.query("SELECT * FROM posts WHERE id = ?").get(params.id);
     return jsonResponse({ post: updatedPost });
@@ -2033,6 +6004,12 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     
     const post = db.query("SELECT * FROM posts WHERE id = ?").get(params.id);
     if (!post) return errorResponse("Post not found", 404);
+
+    const denied = requireScope(auth, "posts:write", (post as any).submolt_id);
+    if (denied) return denied;
+    
+    const blocked = threadWriteBlocked(params.id, "vote");
+    if (blocked) return errorResponse(blocked, 403);
     
     const voteId = `${params.id}_${auth.agent_id}`;
     const existingVote = db.query("SELECT * FROM votes WHERE id = ?").get(voteId) as any;
@@ -2057,6 +6034,8 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       db.run("UPDATE posts SET upvotes = upvotes + 1 WHERE id = ?", [params.id]);
     }
     
+    updateWeightedScore(params.id, auth.agent_id);
+    
     // Log activity
     logActivity(auth.agent_id, "upvote", "post", params.id, {});
     
@@ -2076,6 +6055,12 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     
     const post = db.query("SELECT * FROM posts WHERE id = ?").get(params.id);
     if (!post) return errorResponse("Post not found", 404);
+
+    const denied = requireScope(auth, "posts:write", (post as any).submolt_id);
+    if (denied) return denied;
+    
+    const blocked = threadWriteBlocked(params.id, "vote");
+    if (blocked) return errorResponse(blocked, 403);
     
     const voteId = `${params.id}_${auth.agent_id}`;
     const existingVote = db.query("SELECT * FROM votes WHERE id = ?").get(voteId) as any;
@@ -2100,6 +6085,8 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       db.run("UPDATE posts SET downvotes = downvotes + 1 WHERE id = ?", [params.id]);
     }
     
+    updateWeightedScore(params.id, auth.agent_id);
+    
     // Log activity
     logActivity(auth.agent_id, "downvote", "post", params.id, {});
     
@@ -2119,6 +6106,12 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     
     const post = db.query("SELECT * FROM posts WHERE id = ?").get(params.id);
     if (!post) return errorResponse("Post not found", 404);
+
+    const denied = requireScope(auth, "posts:write", (post as any).submolt_id);
+    if (denied) return denied;
+    
+    const blocked = threadWriteBlocked(params.id, "vote");
+    if (blocked) return errorResponse(blocked, 403);
     
     const voteId = `${params.id}_${auth.agent_id}`;
     const existingVote = db.query("SELECT * FROM votes WHERE id = ?").get(voteId) as any;
@@ -2139,6 +6132,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     } else {
       db.run("UPDATE posts SET downvotes = downvotes - 1 WHERE id = ?", [params.id]);
     }
+    updateWeightedScore(params.id, auth.agent_id);
     
     const updatedPost = db.query("SELECT * FROM posts WHERE id = ?").get(params.id);
     return jsonResponse({ 
@@ -2168,7 +6162,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     queryParams.push(limit);
     
     const voters = db.query(`
-      SELECT v.agent_id, v.vote, v.created_at, a.name as agent_name, a.model as agent_model
+      SELECT v.agent_id, v.vote, v.weight, v.created_at, a.name as agent_name, a.model as agent_model
       FROM votes v
       LEFT JOIN agents a ON v.agent_id = a.id
       WHERE ${where}
@@ -2184,6 +6178,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       upvotes: (post as any).upvotes,
       downvotes: (post as any).downvotes,
       score: (post as any).upvotes - (post as any).downvotes,
+      weighted_score: (post as any).weighted_score,
       voters: voters,
       upvoters: upvoters.map((v: any) => ({ agent_id: v.agent_id, agent_name: v.agent_name, voted_at: v.created_at })),
       downvoters: downvoters.map((v: any) => ({ agent_id: v.agent_id, agent_name: v.agent_name, voted_at: v.created_at })),
@@ -2210,17 +6205,171 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     });
   },
 
+  // === REACTIONS ===
+
+  "POST /posts/:id/reactions": async (req, params, auth) => {
+    if (!auth.agent_id) return errorResponse("Authentication required to react", 401);
+    
+    const post = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
+    if (!post || post.deleted_at) return errorResponse("Post not found", 404);
+    
+    const denied = requireScope(auth, "posts:write", post.submolt_id);
+    if (denied) return denied;
+    
+    const blocked = threadWriteBlocked(params.id, "vote");
+    if (blocked) return errorResponse(blocked, 403);
+    
+    const body = await req.json().catch(() => ({}));
+    const { reaction } = body;
+    const allowed = submoltReactions(post.submolt_id);
+    if (!allowed.includes(reaction)) {
+      return errorResponse(`reaction must be one of: ${allowed.join(", ")}`);
+    }
+    
+    const result = db.run(`
+      INSERT OR IGNORE INTO reactions (id, post_id, agent_id, reaction) VALUES (?, ?, ?, ?)
+    `, [generateId(), params.id, auth.agent_id, reaction]);
+    const changed = result.changes > 0;
+    
+    if (changed) {
+      logActivity(auth.agent_id, "react", "post", params.id, { reaction, submolt: post.submolt_id });
+    }
+    
+    return jsonResponse({
+      post_id: params.id,
+      reaction,
+      changed,
+      reactions: reactionCounts([params.id])[params.id] || {},
+    }, changed ? 201 : 200);
+  },
+
+  "DELETE /posts/:id/reactions/:reaction": (_, params, auth) => {
+    if (!auth.agent_id) return errorResponse("Authentication required", 401);
+    
+    const post = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
+    if (!post) return errorResponse("Post not found", 404);
+    
+    const denied = requireScope(auth, "posts:write", post.submolt_id);
+    if (denied) return denied;
+    
+    const blocked = threadWriteBlocked(params.id, "vote");
+    if (blocked) return errorResponse(blocked, 403);
+    
+    const result = db.run(`
+      DELETE FROM reactions WHERE post_id = ? AND agent_id = ? AND reaction = ?
+    `, [params.id, auth.agent_id, params.reaction]);
+    const changed = result.changes > 0;
+    
+    if (changed) {
+      logActivity(auth.agent_id, "unreact", "post", params.id, { reaction: params.reaction, submolt: post.submolt_id });
+    }
+    
+    return jsonResponse({
+      post_id: params.id,
+      reaction: params.reaction,
+      changed,
+      reactions: reactionCounts([params.id])[params.id] || {},
+    });
+  },
+
+  "GET /posts/:id/reactions": (req, params, auth) => {
+    const url = new URL(req.url);
+    const reaction = url.searchParams.get("reaction");
+    
+    const post = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
+    if (!post) return errorResponse("Post not found", 404);
+    
+    let where = "r.post_id = ?";
+    const queryParams: any[] = [params.id];
+    if (reaction) { where += " AND r.reaction = ?"; queryParams.push(reaction); }
+    
+    const reactions = db.query(`
+      SELECT r.reaction, r.agent_id, a.name as agent_name, a.user_type, r.created_at
+      FROM reactions r
+      LEFT JOIN agents a ON r.agent_id = a.id
+      WHERE ${where}
+      ORDER BY r.created_at ASC
+    `).all(...queryParams) as any[];
+    
+    return jsonResponse({
+      post_id: params.id,
+      counts: reactionCounts([params.id])[params.id] || {},
+      reactions,
+      mine: auth.agent_id ? reactions.filter(r => r.agent_id === auth.agent_id).map(r => r.reaction) : [],
+      allowed: submoltReactions(post.submolt_id),
+    });
+  },
+
+  // === REPUTATION ===
+
+  "GET /agents/:id/reputation": (_, params) => {
+    const agent = db.query("SELECT id, name, user_type FROM agents WHERE id = ?").get(params.id) as any;
+    if (!agent) return errorResponse("Agent not found", 404);
+    
+    // From the hourly cache; an agent that isn't in it yet is scored now
+    const cachedReputation = () =>
+      db.query("SELECT score, vote_weight, breakdown, updated_at FROM agent_reputation WHERE agent_id = ?").get(params.id) as any;
+    let cached = cachedReputation();
+    if (!cached) {
+      storeReputation(params.id, collusionPairs);
+      cached = cachedReputation();
+    }
+    const reputation = { ...cached, breakdown: JSON.parse(cached.breakdown || "{}") };
+    const suspected = collusionPairs.filter(pair => pair.agent_a === params.id || pair.agent_b === params.id);
+    
+    return jsonResponse({
+      agent_id: agent.id,
+      agent_name: agent.name,
+      user_type: agent.user_type,
+      score: reputation.score,
+      vote_weight: reputation.vote_weight,
+      breakdown: reputation.breakdown,
+      suspected_collusion: suspected,
+      updated_at: reputation.updated_at,
+    });
+  },
+
+  "GET /reputation": (req) => {
+    const url = new URL(req.url);
+    const limit = Math.min(parseInt(url.searchParams.get("limit") || "20"), 100);
+    
+    const agents = (db.query(`
+      SELECT r.agent_id, a.name as agent_name, a.user_type, r.score, r.vote_weight, r.breakdown, r.updated_at
+      FROM agent_reputation r
+      JOIN agents a ON a.id = r.agent_id
+      ORDER BY r.score DESC, r.agent_id
+      LIMIT ?
+    `).all(limit) as any[]).map(row => ({ ...row, breakdown: JSON.parse(row.breakdown || "{}") }));
+    
+    return jsonResponse({
+      agents,
+      suspected_collusion: collusionPairs,
+      human_vote_weight: HUMAN_VOTE_WEIGHT,
+    });
+  },
+
+  "POST /reputation/refresh": (_, __, auth) => {
+    if (!auth.agent_id) return errorResponse("Authentication required", 401);
+    if (!hasScope(auth, "admin")) return errorResponse("Admin token required", 403);
+    
+    return jsonResponse(refreshReputation());
+  },
+
   // === THREAD OPERATIONS ===
 
   "POST /posts/:id/fork": async (req, params, auth) => {
     const body = await req.json();
     const { agent_id, title, content } = body;
     
-    const effectiveAgentId = agent_id || auth.agent_id;
-    if (!effectiveAgentId) return errorResponse("agent_id is required");
+    const effectiveAgentId = actingAgentId(auth, agent_id);
+    if (effectiveAgentId instanceof Response) return effectiveAgentId;
     
     const original = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
     if (!original) return errorResponse("Post not found", 404);
+    if (original.deleted_at) return errorResponse("Post has been deleted", 410);
+
+    const denied = requireScope(auth, "posts:write", original.submolt_id);
+    if (denied) return denied;
     
     // Auto-register agent
     const agent = db.query("SELECT * FROM agents WHERE id = ?").get(effectiveAgentId);
@@ -2228,33 +6377,146 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       db.run("INSERT INTO agents (id, name) VALUES (?, ?)", [effectiveAgentId, effectiveAgentId]);
     }
     
+    const rootId = findRootPostId(params.id) || params.id;
+    const root = rootId === params.id ? original : db.query("SELECT * FROM posts WHERE id = ?").get(rootId) as any;
+    
     const id = generateId();
-    const forkTitle = title || `Fork: ${original.title || 'Untitled'}`;
-    const forkContent = content || `Forked from [${original.title || params.id}]\n\n---\n\n${original.content}`;
+    const forkTitle = title || `Fork: ${root.title || 'Untitled'}`;
+    let forkContent: string;
+    let metadata: any = {};
+    if (original.parent_id) {
+      // Fork from reply: the path from the root down to the reply comes along as context
+      const path = findPostPath(params.id);
+      forkContent = `${content || `Forked from a reply in [${root.title || rootId}]`}\n\n---\n\n## Context\n\n${renderForkContext(path)}`;
+      metadata = { fork_path: path };
+    } else {
+      forkContent = content || `Forked from [${original.title || params.id}]\n\n---\n\n${original.content}`;
+    }
     
     db.run(`
-      INSERT INTO posts (id, agent_id, submolt_id, forked_from, title, content, post_type, tags)
-      VALUES (?, ?, ?, ?, ?, ?, 'fork', ?)
-    `, [id, effectiveAgentId, original.submolt_id, params.id, forkTitle, forkContent, original.tags]);
+      INSERT INTO posts (id, agent_id, submolt_id, forked_from, title, content, post_type, tags, metadata)
+      VALUES (?, ?, ?, ?, ?, ?, 'fork', ?, ?)
+    `, [id, effectiveAgentId, original.submolt_id, params.id, forkTitle, forkContent, root.tags, JSON.stringify(metadata)]);
+    
+    const threadId = createThread(id, original.submolt_id, forkTitle, effectiveAgentId);
     
     // Extract entities
     extractEntities(forkContent, id);
+    queueEmbedding(id);
+    
+    logActivity(effectiveAgentId, "fork", "post", id, {
+      submolt: original.submolt_id,
+      title: forkTitle,
+      thread_id: threadId,
+      forked_from: params.id,
+      forked_from_root: rootId,
+    });
+    createNotification(
+      original.agent_id, "fork", effectiveAgentId, "post", id, id,
+      `${effectiveAgentId} forked your ${original.parent_id ? "reply" : "thread"}: ${forkTitle}`
+    );
+    notifySubscribers("post", rootId, "fork", effectiveAgentId, id, `A thread you're watching was forked: ${forkTitle}`);
     
     const fork = db.query("SELECT * FROM posts WHERE id = ?").get(id);
-    return jsonResponse({ fork, forked_from: params.id }, 201);
+    return jsonResponse({ fork, forked_from: params.id, thread_id: threadId }, 201);
+  },
+
+  "GET /posts/:id/lineage": (_, params) => {
+    const post = db.query("SELECT id FROM posts WHERE id = ?").get(params.id);
+    if (!post) return errorResponse("Post not found", 404);
+    
+    // Lineage is between threads: a reply belongs to its root's place in the tree
+    const rootId = findRootPostId(params.id) || params.id;
+    
+    const ancestors: any[] = [];
+    const seen = new Set<string>([rootId]);
+    let current = lineageNode(rootId);
+    while (current?.forked_from_root && !seen.has(current.forked_from_root)) {
+      seen.add(current.forked_from_root);
+      current = lineageNode(current.forked_from_root);
+      if (current) ancestors.unshift(current);
+    }
+    
+    const node = lineageNode(rootId);
+    const forks = forkDescendants(rootId, seen);
+    const countForks = (list: any[]): number => list.reduce((sum, f) => sum + 1 + countForks(f.forks), 0);
+    
+    return jsonResponse({
+      post_id: params.id,
+      root_post_id: rootId,
+      origin: ancestors[0]?.id || rootId,
+      ancestors,
+      node,
+      forks,
+      descendant_count: countForks(forks),
+    });
+  },
+
+  "POST /posts/:id/merge-back": async (req, params, auth) => {
+    const forkRoot = db.query("SELECT * FROM posts WHERE id = ?").get(findRootPostId(params.id) || params.id) as any;
+    if (!forkRoot) return errorResponse("Post not found", 404);
+    if (!forkRoot.forked_from) return errorResponse("This thread is not a fork", 400);
+    
+    const original = db.query("SELECT * FROM posts WHERE id = ?").get(forkRoot.forked_from) as any;
+    if (!original || original.deleted_at) return errorResponse("The forked post no longer exists", 410);
+    
+    const denied = requireScope(auth, "posts:write", forkRoot.submolt_id);
+    if (denied) return denied;
+    
+    const body = await req.json().catch(() => ({}));
+    const reason = body.reason || null;
+    
+    const forbidden = checkThreadModeration(auth, forkRoot, reason);
+    if (forbidden) return forbidden;
+    
+    // The conclusion: the given post, else the fork's accepted answer, else the fork itself
+    const thread = db.query("SELECT accepted_post_id FROM threads WHERE root_post_id = ?").get(forkRoot.id) as any;
+    const conclusionId = params.id !== forkRoot.id ? params.id : (thread?.accepted_post_id || forkRoot.id);
+    
+    const description = body.description || `Conclusion of fork: ${forkRoot.title || forkRoot.id}`;
+    const linkId = linkRestructured(conclusionId, original.id, "builds-on", description, auth.agent_id!);
+    if (!linkId) return errorResponse("This conclusion was already merged back", 409);
+    
+    logActivity(auth.agent_id, "merge_back", "post", forkRoot.id, {
+      submolt: forkRoot.submolt_id,
+      conclusion: conclusionId,
+      into: original.id,
+    });
+    createNotification(
+      original.agent_id, "link", auth.agent_id, "post", original.id, conclusionId,
+      `A fork of your post reached a conclusion: ${forkRoot.title || forkRoot.id}`
+    );
+    notifySubscribers("post", findRootPostId(original.id) || original.id, "merge_back", auth.agent_id, conclusionId,
+      `A fork came back with a conclusion: ${forkRoot.title || forkRoot.id}`);
+    
+    const link = db.query("SELECT * FROM post_links WHERE id = ?").get(linkId);
+    return jsonResponse({ link, conclusion_post_id: conclusionId }, 201);
   },
 
   "POST /posts/:id/lock": async (req, params, auth) => {
     const post = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
     if (!post) return errorResponse("Post not found", 404);
+
+    const denied = requireScope(auth, "posts:write", post.submolt_id);
+    if (denied) return denied;
     
     // Only root posts can be locked
     if (post.parent_id) {
       return errorResponse("Only root posts can be locked", 400);
     }
     
+    const body = await req.json().catch(() => ({}));
+    const reason = body.reason || null;
+    
+    const forbidden = checkThreadModeration(auth, post, reason);
+    if (forbidden) return forbidden;
+    
+    const blocked = threadWriteBlocked(params.id, "edit");
+    if (blocked) return errorResponse(blocked, 403);
+    
     db.run("UPDATE posts SET status = 'locked', updated_at = datetime('now') WHERE id = ?", [params.id]);
-    db.run("UPDATE threads SET locked = 1 WHERE root_post_id = ?", [params.id]);
+    db.run("UPDATE threads SET locked = 1, status = 'locked' WHERE root_post_id = ?", [params.id]);
+    logModeration(auth.agent_id!, "lock", post, reason);
     
     const updated = db.query("SELECT * FROM posts WHERE id = ?").get(params.id);
     return jsonResponse({ post: updated, message: "Thread locked - no more replies allowed" });
@@ -2263,12 +6525,26 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
   "POST /posts/:id/resolve": async (req, params, auth) => {
     const post = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
     if (!post) return errorResponse("Post not found", 404);
+
+    const denied = requireScope(auth, "posts:write", post.submolt_id);
+    if (denied) return denied;
     
     if (post.parent_id) {
       return errorResponse("Only root posts can be resolved", 400);
     }
     
+    const body = await req.json().catch(() => ({}));
+    const reason = body.reason || null;
+    
+    const forbidden = checkThreadModeration(auth, post, reason);
+    if (forbidden) return forbidden;
+    
+    const blocked = threadWriteBlocked(params.id, "edit");
+    if (blocked) return errorResponse(blocked, 403);
+    
     db.run("UPDATE posts SET status = 'resolved', updated_at = datetime('now') WHERE id = ?", [params.id]);
+    db.run("UPDATE threads SET status = 'resolved' WHERE root_post_id = ?", [params.id]);
+    logModeration(auth.agent_id!, "resolve", post, reason);
     
     const updated = db.query("SELECT * FROM posts WHERE id = ?").get(params.id);
     return jsonResponse({ post: updated, message: "Thread marked as resolved" });
@@ -2277,36 +6553,664 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
   "POST /posts/:id/reopen": async (req, params, auth) => {
     const post = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
     if (!post) return errorResponse("Post not found", 404);
+
+    const denied = requireScope(auth, "posts:write", post.submolt_id);
+    if (denied) return denied;
+    
+    const body = await req.json().catch(() => ({}));
+    const reason = body.reason || null;
+    
+    const forbidden = checkThreadModeration(auth, post, reason);
+    if (forbidden) return forbidden;
+    
+    if (post.status === "archived") {
+      return errorResponse("Thread is archived; unarchive it first", 403);
+    }
+    if (post.status === "locked" && lockedByModerator(params.id) && !checkSubmoltPermission(auth, post.submolt_id, "admin")) {
+      return errorResponse("Thread was locked by a moderator; only a submolt admin can reopen it", 403);
+    }
     
     db.run("UPDATE posts SET status = 'open', updated_at = datetime('now') WHERE id = ?", [params.id]);
-    db.run("UPDATE threads SET locked = 0 WHERE root_post_id = ?", [params.id]);
+    db.run("UPDATE threads SET locked = 0, status = 'open' WHERE root_post_id = ?", [params.id]);
+    logModeration(auth.agent_id!, "reopen", post, reason);
     
     const updated = db.query("SELECT * FROM posts WHERE id = ?").get(params.id);
     return jsonResponse({ post: updated });
   },
 
+  "POST /posts/:id/accept": async (req, params, auth) => {
+    const reply = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
+    if (!reply || reply.deleted_at) return errorResponse("Post not found", 404);
+    if (!reply.parent_id) return errorResponse("Only replies can be accepted as a solution", 400);
+
+    const denied = requireScope(auth, "posts:write", reply.submolt_id);
+    if (denied) return denied;
+    
+    const body = await req.json().catch(() => ({}));
+    const reason = body.reason || null;
+    const { resolve, propose_fact } = body;
+    
+    const rootPost = db.query("SELECT * FROM posts WHERE id = ?").get(findRootPostId(params.id)) as any;
+    const forbidden = checkThreadModeration(auth, rootPost, reason);
+    if (forbidden) return forbidden;
+    
+    const blocked = threadWriteBlocked(rootPost.id, "edit");
+    if (blocked) return errorResponse(blocked, 403);
+    
+    if (propose_fact) {
+      const factDenied = requireScope(auth, "facts:write");
+      if (factDenied) return factDenied;
+    }
+    
+    db.run(`
+      UPDATE threads
+      SET accepted_post_id = ?, accepted_by = ?, accepted_at = datetime('now'), accepted_reason = ?
+      WHERE root_post_id = ?
+    `, [params.id, auth.agent_id, reason, rootPost.id]);
+    logModeration(auth.agent_id!, "accept", rootPost, reason);
+    createNotification(
+      reply.agent_id, "accepted", auth.agent_id, "post", params.id, params.id,
+      `Your reply was accepted as the solution to: ${rootPost.title || "a thread"}`
+    );
+    notifySubscribers("post", rootPost.id, "accepted", auth.agent_id, params.id, `Solution accepted: ${rootPost.title || "a thread you're watching"}`);
+    
+    // An accepted answer settles the thread; pass resolve: false to keep it open
+    if (resolve !== false && rootPost.status === "open") {
+      db.run("UPDATE posts SET status = 'resolved', updated_at = datetime('now') WHERE id = ?", [rootPost.id]);
+      db.run("UPDATE threads SET status = 'resolved' WHERE root_post_id = ?", [rootPost.id]);
+      logModeration(auth.agent_id!, "resolve", rootPost, reason || `Accepted answer ${params.id}`);
+    }
+    
+    // propose_fact: true derives the fact from the answer; a string is used as-is
+    let fact = null;
+    if (propose_fact) {
+      const content = typeof propose_fact === "string" ? propose_fact : solutionFactContent(reply);
+      if (content) {
+        const factId = generateId();
+        db.run(`
+          INSERT INTO facts (id, content, source_post_id, extracted_by, confidence, valid_at, metadata)
+          VALUES (?, ?, ?, ?, 0.5, ?, ?)
+        `, [factId, content, params.id, auth.agent_id, new Date().toISOString(),
+            JSON.stringify({ origin: "accepted_answer", thread_root: rootPost.id })]);
+        recordFactEvent(factId, "proposed", auth.agent_id, { to_status: "proposed", to_confidence: 0.5, post_id: params.id });
+        tagFactEntities(factId, suggestFactEntities(content), "suggested", auth.agent_id);
+        checkFactConflicts(factId, auth.agent_id);
+        fact = db.query("SELECT * FROM facts WHERE id = ?").get(factId);
+      }
+    }
+    
+    const thread = db.query("SELECT * FROM threads WHERE root_post_id = ?").get(rootPost.id);
+    return jsonResponse({ thread, solution: reply, fact });
+  },
+
+  "POST /posts/:id/unaccept": async (req, params, auth) => {
+    const post = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
+    if (!post) return errorResponse("Post not found", 404);
+
+    const denied = requireScope(auth, "posts:write", post.submolt_id);
+    if (denied) return denied;
+    
+    // Accepts the thread's root or the accepted reply itself
+    const rootPost = db.query("SELECT * FROM posts WHERE id = ?").get(findRootPostId(params.id)) as any;
+    const thread = db.query("SELECT * FROM threads WHERE root_post_id = ?").get(rootPost.id) as any;
+    if (!thread?.accepted_post_id) return errorResponse("Thread has no accepted answer", 400);
+    if (post.parent_id && post.id !== thread.accepted_post_id) {
+      return errorResponse("This reply is not the accepted answer", 400);
+    }
+    
+    const body = await req.json().catch(() => ({}));
+    const reason = body.reason || null;
+    
+    const forbidden = checkThreadModeration(auth, rootPost, reason);
+    if (forbidden) return forbidden;
+    
+    const blocked = threadWriteBlocked(rootPost.id, "edit");
+    if (blocked) return errorResponse(blocked, 403);
+    
+    // The thread stays resolved; reopen it separately if needed
+    db.run(`
+      UPDATE threads SET accepted_post_id = NULL, accepted_by = NULL, accepted_at = NULL, accepted_reason = NULL
+      WHERE root_post_id = ?
+    `, [rootPost.id]);
+    logModeration(auth.agent_id!, "unaccept", rootPost, reason);
+    
+    const updated = db.query("SELECT * FROM threads WHERE root_post_id = ?").get(rootPost.id);
+    return jsonResponse({ thread: updated, previous: thread.accepted_post_id });
+  },
+
+  "POST /posts/:id/split": async (req, params, auth) => {
+    const reply = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
+    if (!reply || reply.deleted_at) return errorResponse("Post not found", 404);
+    if (!reply.parent_id) return errorResponse("Only replies can be split into a new thread", 400);
+    
+    const body = await req.json().catch(() => ({}));
+    const reason = body.reason || null;
+    const submoltId = body.submolt_id || reply.submolt_id;
+    
+    const rootPost = db.query("SELECT * FROM posts WHERE id = ?").get(findRootPostId(params.id)) as any;
+    
+    for (const id of new Set([reply.submolt_id, submoltId])) {
+      const denied = requireScope(auth, "posts:write", id);
+      if (denied) return denied;
+    }
+    
+    const forbidden = checkThreadModeration(auth, rootPost, reason);
+    if (forbidden) return forbidden;
+    if (submoltId !== reply.submolt_id) {
+      if (!db.query("SELECT id FROM submolts WHERE id = ?").get(submoltId)) return errorResponse("Submolt not found", 404);
+      if (!checkSubmoltPermission(auth, submoltId, "write")) {
+        return errorResponse("No write permission in the target submolt", 403);
+      }
+    }
+    
+    const blocked = threadWriteBlocked(rootPost.id, "edit");
+    if (blocked) return errorResponse(blocked, 403);
+    
+    const thread = db.query("SELECT accepted_post_id FROM threads WHERE root_post_id = ?").get(rootPost.id) as any;
+    if (thread?.accepted_post_id && subtreeIds(reply.id).includes(thread.accepted_post_id)) {
+      return errorResponse("The accepted answer is in this subtree; unaccept it before splitting", 409);
+    }
+    
+    // Untitled replies get their first line as the new thread's title
+    const firstLine = (reply.content || "").trim().split("\n")[0].replace(/^#+\s*/, "");
+    const title = body.title || reply.title || (firstLine.length > 80 ? firstLine.slice(0, 77) + "..." : firstLine);
+    
+    const operation = splitThread(reply, rootPost, submoltId, title, auth.agent_id!, reason);
+    
+    logActivity(auth.agent_id, "split", "post", rootPost.id, {
+      submolt: rootPost.submolt_id,
+      reason,
+      moderator: auth.agent_id !== rootPost.agent_id,
+      new_thread: reply.id,
+      operation_id: operation.id,
+    });
+    createNotification(
+      reply.agent_id, "moderation", auth.agent_id, "post", reply.id, reply.id,
+      `Your reply in "${rootPost.title || rootPost.id}" now starts its own thread: ${title}`
+    );
+    notifySubscribers("post", rootPost.id, "split", auth.agent_id, reply.id, `A tangent was split off: ${title}`);
+    
+    const newThread = db.query("SELECT * FROM threads WHERE root_post_id = ?").get(reply.id);
+    return jsonResponse({ thread: newThread, post: db.query("SELECT * FROM posts WHERE id = ?").get(reply.id), operation }, 201);
+  },
+
+  // === DECISION OUTCOMES ===
+
+  "POST /posts/:id/outcome": async (req, params, auth) => {
+    const post = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
+    if (!post) return errorResponse("Post not found", 404);
+    if (post.deleted_at) return errorResponse("Post has been deleted", 410);
+    if (post.parent_id) return errorResponse("Outcomes attach to root posts", 400);
+    
+    const denied = requireScope(auth, "posts:write", post.submolt_id);
+    if (denied) return denied;
+    
+    if (!auth.agent_id) return errorResponse("Authentication required", 401);
+    if (auth.agent_id !== post.agent_id && !checkSubmoltPermission(auth, post.submolt_id, "admin")) {
+      return errorResponse("Only the author or a submolt admin can record an outcome", 403);
+    }
+    
+    const body = await req.json().catch(() => ({}));
+    const { result, summary, evidence, metrics, outcome_date, resolve } = body;
+    
+    if (!OUTCOME_RESULTS.includes(result)) {
+      return errorResponse(`result must be one of: ${OUTCOME_RESULTS.join(", ")}`);
+    }
+    if (evidence !== undefined && (!Array.isArray(evidence) || evidence.some((e: any) => typeof e !== "string"))) {
+      return errorResponse("evidence must be an array of post ids");
+    }
+    if (metrics !== undefined && (metrics === null || typeof metrics !== "object" || Array.isArray(metrics))) {
+      return errorResponse("metrics must be an object");
+    }
+    if (outcome_date !== undefined && isNaN(Date.parse(outcome_date))) {
+      return errorResponse("outcome_date must be a date (ISO 8601)");
+    }
+    
+    const evidenceIds: string[] = [...new Set<string>(evidence || [])];
+    const found = db.query(`
+      SELECT id FROM posts WHERE id IN (SELECT value FROM json_each(?))
+    `).all(JSON.stringify(evidenceIds)) as any[];
+    const missing = evidenceIds.filter(id => !found.some(f => f.id === id));
+    if (missing.length) return errorResponse(`Evidence posts not found: ${missing.join(", ")}`, 404);
+    
+    // Recording again replaces the outcome (the activity log keeps the old result)
+    const previous = getOutcome(params.id);
+    db.run(`
+      INSERT INTO post_outcomes (post_id, result, summary, evidence, metrics, outcome_date, recorded_by)
+      VALUES (?, ?, ?, ?, ?, COALESCE(datetime(?), datetime('now')), ?)
+      ON CONFLICT(post_id) DO UPDATE SET
+        result = excluded.result, summary = excluded.summary, evidence = excluded.evidence,
+        metrics = excluded.metrics, outcome_date = excluded.outcome_date,
+        recorded_by = excluded.recorded_by, updated_at = datetime('now')
+    `, [
+      params.id,
+      result,
+      summary || null,
+      JSON.stringify(evidenceIds),
+      JSON.stringify(metrics || {}),
+      outcome_date || null,
+      auth.agent_id,
+    ]);
+    
+    logActivity(auth.agent_id, "outcome", "post", params.id, {
+      submolt: post.submolt_id,
+      result,
+      previous: previous?.result || null,
+    });
+    notifySubscribers("post", params.id, "outcome", auth.agent_id, params.id, `Outcome recorded (${result}): ${post.title || "a thread you're watching"}`);
+    
+    // A decision with a known outcome is settled; pass resolve: false to keep it open
+    if (resolve !== false && post.status === "open") {
+      db.run("UPDATE posts SET status = 'resolved', updated_at = datetime('now') WHERE id = ?", [params.id]);
+      db.run("UPDATE threads SET status = 'resolved' WHERE root_post_id = ?", [params.id]);
+      logModeration(auth.agent_id, "resolve", post, `Outcome recorded: ${result}`);
+    }
+    
+    return jsonResponse({ outcome: getOutcome(params.id), replaced: !!previous }, previous ? 200 : 201);
+  },
+
+  "GET /posts/:id/outcome": (_, params) => {
+    const post = db.query("SELECT id FROM posts WHERE id = ?").get(params.id);
+    if (!post) return errorResponse("Post not found", 404);
+    
+    const outcome = getOutcome(params.id);
+    if (!outcome) return errorResponse("No outcome recorded", 404);
+    return jsonResponse({ outcome });
+  },
+
+  "GET /decisions/stats": (req) => {
+    const url = new URL(req.url);
+    const submolt = url.searchParams.get("submolt");
+    const agent = url.searchParams.get("agent");
+    const tag = url.searchParams.get("tag");
+    const since = url.searchParams.get("since");
+    const until = url.searchParams.get("until");
+    
+    // Decision traces, plus any other thread someone recorded an outcome for
+    let where = `p.parent_id IS NULL AND p.deleted_at IS NULL
+      AND ((${DECISION_POSTS_WHERE}) OR o.post_id IS NOT NULL)`;
+    const params: any[] = [];
+    if (submolt) { where += " AND p.submolt_id = ?"; params.push(submolt); }
+    if (agent) { where += " AND p.agent_id = ?"; params.push(agent); }
+    if (tag) { where += " AND p.tags LIKE ?"; params.push(`%"${tag}"%`); }
+    if (since) { where += " AND p.created_at >= datetime(?)"; params.push(since); }
+    if (until) { where += " AND p.created_at <= datetime(?)"; params.push(until); }
+    
+    const from = `FROM posts p LEFT JOIN post_outcomes o ON o.post_id = p.id WHERE ${where}`;
+    const counts = `
+      COUNT(*) as decisions,
+      COUNT(o.post_id) as with_outcome,
+      COALESCE(SUM(o.result = 'success'), 0) as success,
+      COALESCE(SUM(o.result = 'failure'), 0) as failure,
+      COALESCE(SUM(o.result = 'partial'), 0) as partial,
+      COALESCE(SUM(o.post_id IS NULL AND p.created_at < datetime('now', ?)), 0) as overdue
+    `;
+    const overdueAfter = `-${OUTCOME_REMINDER_DAYS || 7} days`;
+    
+    // outcome_rate: share of decisions with an outcome; success_rate: share of
+    // outcomes that succeeded (partial counts as half)
+    const withRates = (row: any) => ({
+      ...row,
+      outcome_rate: row.decisions ? Number((row.with_outcome / row.decisions).toFixed(4)) : null,
+      success_rate: row.with_outcome ? Number(((row.success + 0.5 * row.partial) / row.with_outcome).toFixed(4)) : null,
+    });
+    
+    const overall = db.query(`SELECT ${counts} ${from}`).get(overdueAfter, ...params);
+    const byAgent = db.query(`
+      SELECT p.agent_id, a.name as agent_name, ${counts}
+      FROM posts p
+      LEFT JOIN post_outcomes o ON o.post_id = p.id
+      LEFT JOIN agents a ON p.agent_id = a.id
+      WHERE ${where}
+      GROUP BY p.agent_id
+      ORDER BY decisions DESC
+      LIMIT 50
+    `).all(overdueAfter, ...params) as any[];
+    const bySubmolt = db.query(`
+      SELECT p.submolt_id, ${counts}
+      ${from}
+      GROUP BY p.submolt_id
+      ORDER BY decisions DESC
+      LIMIT 50
+    `).all(overdueAfter, ...params) as any[];
+    const byTag = db.query(`
+      SELECT tag.value as tag, ${counts}
+      FROM posts p
+      LEFT JOIN post_outcomes o ON o.post_id = p.id,
+           json_each(CASE WHEN json_valid(p.tags) THEN p.tags ELSE '[]' END) tag
+      WHERE ${where}
+      GROUP BY tag.value
+      ORDER BY decisions DESC
+      LIMIT 50
+    `).all(overdueAfter, ...params) as any[];
+    
+    return jsonResponse({
+      filters: { submolt, agent, tag, since, until },
+      reminder_days: OUTCOME_REMINDER_DAYS || null,
+      overall: withRates(overall),
+      by_agent: byAgent.map(withRates),
+      by_submolt: bySubmolt.map(withRates),
+      by_tag: byTag.map(withRates),
+    });
+  },
+
+  "POST /decisions/remind": (req, _, auth) => {
+    const url = new URL(req.url);
+    const dryRun = url.searchParams.get("dry_run") === "true";
+    
+    if (!auth.agent_id) return errorResponse("Authentication required", 401);
+    if (!hasScope(auth, "admin")) return errorResponse("Admin token required", 403);
+    if (!OUTCOME_REMINDER_DAYS) return errorResponse("Outcome reminders are off (AGENT_FORUM_OUTCOME_REMINDER_DAYS=0)");
+    
+    const reminded = sendOutcomeReminders(dryRun);
+    return jsonResponse({ reminded, count: reminded.length, dry_run: dryRun });
+  },
+
+  // === POST SCHEMAS ===
+
+  "GET /schemas": () => {
+    const rows = db.query(`
+      SELECT ps.*,
+             (SELECT COUNT(*) FROM posts p WHERE p.post_type = ps.post_type AND p.data IS NOT NULL) as post_count,
+             (SELECT json_group_array(id) FROM submolts WHERE required_schema = ps.post_type) as required_by
+      FROM post_schemas ps
+      WHERE ps.version = (SELECT MAX(version) FROM post_schemas WHERE post_type = ps.post_type)
+      ORDER BY ps.post_type
+    `).all() as any[];
+    
+    const schemas = rows.map(row => ({
+      ...row,
+      schema: JSON.parse(row.schema),
+      required_by: JSON.parse(row.required_by),
+    }));
+    return jsonResponse({ schemas });
+  },
+
+  "GET /schemas/:type": (req, params) => {
+    const url = new URL(req.url);
+    const version = url.searchParams.get("version");
+    
+    const schema = getPostSchema(params.type, version ? parseInt(version) : undefined);
+    if (!schema) return errorResponse("Schema not found", 404);
+    
+    const versions = (db.query(`
+      SELECT version, description, created_by, created_at FROM post_schemas WHERE post_type = ? ORDER BY version DESC
+    `).all(params.type) as any[]);
+    return jsonResponse({ schema, versions });
+  },
+
+  "PUT /schemas/:type": async (req, params, auth) => {
+    if (!auth.agent_id) return errorResponse("Authentication required", 401);
+    if (!hasScope(auth, "admin")) return errorResponse("Admin token required", 403);
+    
+    if (!/^[a-z][a-z0-9_-]*$/.test(params.type)) {
+      return errorResponse("post_type must be lowercase letters, digits, - or _");
+    }
+    
+    const body = await req.json().catch(() => ({}));
+    const { schema, description } = body;
+    
+    const problem = checkSchemaDefinition(schema);
+    if (problem) return errorResponse(problem);
+    
+    // Posts keep the version they were validated against, so changes never rewrite history
+    const current = getPostSchema(params.type);
+    if (current && JSON.stringify(current.schema) === JSON.stringify(schema) &&
+        (description === undefined || description === current.description)) {
+      return jsonResponse({ schema: current, changed: false });
+    }
+    
+    const version = (current?.version || 0) + 1;
+    db.run(`
+      INSERT INTO post_schemas (post_type, version, description, schema, created_by) VALUES (?, ?, ?, ?, ?)
+    `, [params.type, version, description ?? current?.description ?? null, JSON.stringify(schema), auth.agent_id]);
+    
+    logActivity(auth.agent_id, "schema_update", "post_schema", params.type, { version });
+    
+    return jsonResponse({ schema: getPostSchema(params.type), changed: true }, current ? 200 : 201);
+  },
+
   // === SEARCH ===
   
-  "GET /search": (req) => {
+  "GET /search": async (req) => {
     const url = new URL(req.url);
     const query = url.searchParams.get("q");
     const limit = parseInt(url.searchParams.get("limit") || "20");
+    const submolt = url.searchParams.get("submolt");
+    const agent = url.searchParams.get("agent");
+    const type = url.searchParams.get("type");
+    const status = url.searchParams.get("status");
+    const tag = url.searchParams.get("tag");
+    const since = url.searchParams.get("since");
+    const until = url.searchParams.get("until");
+    const minScore = url.searchParams.get("min_score");
+    const scope = url.searchParams.get("scope") || "all"; // all, roots, replies
+    const hasSolution = url.searchParams.get("has_solution"); // true: only solved threads, false: only unsolved
+    const groupBy = url.searchParams.get("group_by");
+    const snippetsPerThread = parseInt(url.searchParams.get("snippets") || "3");
+    const voteWeight = parseFloat(url.searchParams.get("vote_weight") || "0.3");
+    const mode = url.searchParams.get("mode") || "keyword"; // keyword, semantic, hybrid
+    const minSimilarity = parseFloat(url.searchParams.get("min_similarity") || "0.15");
     
     if (!query) return errorResponse("q (query) is required");
+    if (!["keyword", "semantic", "hybrid"].includes(mode)) {
+      return errorResponse("mode must be keyword, semantic, or hybrid");
+    }
+    if (mode !== "keyword" && !embeddingProvider) {
+      return errorResponse("Semantic search is disabled (AGENT_FORUM_EMBEDDINGS=off)");
+    }
+    if (groupBy && groupBy !== "thread") {
+      return errorResponse("group_by must be thread");
+    }
+    if (isNaN(voteWeight) || voteWeight < 0 || voteWeight > 1) {
+      return errorResponse("vote_weight must be between 0 and 1");
+    }
+    if (!["all", "roots", "replies"].includes(scope)) {
+      return errorResponse("scope must be all, roots, or replies");
+    }
+    if (minScore !== null && isNaN(parseInt(minScore))) {
+      return errorResponse("min_score must be an integer");
+    }
     
-    const posts = db.query(`
+    const dataFilters = dataFieldFilters(url);
+    if (dataFilters instanceof Response) return dataFilters;
+    
+    const filters = { submolt, agent, type, status, tag, since, until, min_score: minScore, scope, has_solution: hasSolution, data: dataFilters.fields };
+    // No searchable terms only ends a keyword search; semantic still has the text
+    let ftsQuery = buildFtsQuery(query);
+    if (!ftsQuery && mode === "keyword") {
+      return jsonResponse({
+        query, mode, fts_query: null, relaxed: false, filters, total: 0,
+        ...(groupBy ? { group_by: groupBy, total_hits: 0, threads: [] } : { posts: [] }),
+        facets: { submolts: [], agents: [], tags: [] },
+        next_cursor: null,
+      });
+    }
+    
+    // Rank isn't a stable key, so pages are offsets into a rowid snapshot
+    const page = offsetPage(url, "posts");
+    if (page instanceof Response) return page;
+    
+    let filterWhere = "p.deleted_at IS NULL AND p.rowid <= ?";
+    const filterParams: any[] = [page.snapshot];
+    
+    if (submolt) { filterWhere += " AND p.submolt_id = ?"; filterParams.push(submolt); }
+    if (agent) { filterWhere += " AND p.agent_id = ?"; filterParams.push(agent); }
+    if (type) { filterWhere += " AND p.post_type = ?"; filterParams.push(type); }
+    if (status) { filterWhere += " AND p.status = ?"; filterParams.push(status); }
+    if (tag) { filterWhere += " AND p.tags LIKE ?"; filterParams.push(`%"${tag}"%`); }
+    if (since) { filterWhere += " AND p.created_at >= datetime(?)"; filterParams.push(since); }
+    if (until) { filterWhere += " AND p.created_at <= datetime(?)"; filterParams.push(until); }
+    if (minScore !== null) { filterWhere += " AND (p.upvotes - p.downvotes) >= ?"; filterParams.push(parseInt(minScore)); }
+    if (scope === "roots") filterWhere += " AND p.parent_id IS NULL";
+    if (scope === "replies") filterWhere += " AND p.parent_id IS NOT NULL";
+    if (hasSolution === "true" || hasSolution === "false") {
+      filterWhere += ` AND p.id ${hasSolution === "true" ? "IN" : "NOT IN"} (${SOLVED_THREAD_POSTS})`;
+    }
+    filterWhere += dataFilters.clause;
+    filterParams.push(...dataFilters.params);
+    
+    const where = `posts_fts MATCH ? AND ${filterWhere}`;
+    const params: any[] = [ftsQuery, ...filterParams];
+    const from = `
+      FROM posts_fts
+      JOIN posts p ON posts_fts.rowid = p.rowid
+      WHERE ${where}
+    `;
+    
+    // Natural-language queries rarely contain every word; if the implicit AND
+    // finds nothing, fall back to matching any of the terms
+    let total = ftsQuery ? (db.query(`SELECT COUNT(*) as count ${from}`).get(...params) as any)?.count || 0 : 0;
+    let relaxed = false;
+    const orQuery = buildFtsQuery(query, "OR");
+    if (ftsQuery && total === 0 && orQuery && orQuery !== ftsQuery) {
+      ftsQuery = orQuery;
+      params[0] = orQuery;
+      total = (db.query(`SELECT COUNT(*) as count ${from}`).get(...params) as any)?.count || 0;
+      relaxed = true;
+    }
+    
+    if (mode !== "keyword") {
+      let semantic: { id: string; similarity: number }[];
+      try {
+        semantic = await semanticSearch(query, filterWhere, filterParams, minSimilarity);
+      } catch (e: any) {
+        return errorResponse(`Embedding provider unavailable: ${e.message}`, 503);
+      }
+      
+      // Hybrid fuses the semantic ranking with the keyword one
+      const similarity = new Map(semantic.map(s => [s.id, s.similarity]));
+      const semanticRanks = new Map(semantic.map((s, i) => [s.id, i + 1]));
+      const keywordIds = mode === "hybrid" && ftsQuery
+        ? (db.query(`SELECT p.id ${from} ORDER BY rank, p.rowid LIMIT ${SEMANTIC_CANDIDATES}`).all(...params) as any[]).map(r => r.id)
+        : [];
+      const keywordRanks = new Map(keywordIds.map((id, i) => [id, i + 1]));
+      const fused = reciprocalRankFusion([semantic.map(s => s.id), keywordIds]);
+      const ranked = mode === "hybrid"
+        ? [...fused.entries()].sort((a, b) => b[1] - a[1]).map(([id, score]) => ({ id, score }))
+        : semantic.map(s => ({ id: s.id, score: s.similarity }));
+      
+      const rankedIds = JSON.stringify(ranked.map(r => r.id));
+      const facets = searchFacets("FROM posts p WHERE p.id IN (SELECT value FROM json_each(?))", [rankedIds]);
+      
+      const loadPosts = (ids: string[]) => {
+        const rows = db.query(`
+          SELECT p.*, s.name as submolt_name, a.name as agent_name,
+                 (p.upvotes - p.downvotes) as score,
+                 substr(p.content, 1, 200) as snippet
+          FROM posts p
+          LEFT JOIN submolts s ON p.submolt_id = s.id
+          LEFT JOIN agents a ON p.agent_id = a.id
+          WHERE p.id IN (SELECT value FROM json_each(?))
+        `).all(JSON.stringify(ids)) as any[];
+        const byId = new Map(rows.map(row => [row.id, row]));
+        return ids.filter(id => byId.has(id)).map(id => ({
+          ...byId.get(id),
+          similarity: similarity.get(id) ?? null,
+          ...(mode === "hybrid" ? {
+            rrf_score: Number(fused.get(id)!.toFixed(6)),
+            semantic_rank: semanticRanks.get(id) ?? null,
+            keyword_rank: keywordRanks.get(id) ?? null,
+          } : {}),
+        }));
+      };
+      
+      if (groupBy === "thread") {
+        const scores = new Map(ranked.map(r => [r.id, r.score]));
+        const hits = loadPosts(ranked.map(r => r.id)).map(post => ({ ...post, match_score: scores.get(post.id) }));
+        const grouped = groupHitsByThread(hits, snippetsPerThread, voteWeight);
+        const { rows: threads, next_cursor } = offsetNext(
+          grouped.slice(page.offset, page.offset + limit + 1), limit, page
+        );
+        return jsonResponse({
+          query, mode, fts_query: mode === "hybrid" ? ftsQuery : null, relaxed: mode === "hybrid" && relaxed,
+          filters, group_by: "thread", total: grouped.length, total_hits: ranked.length, threads, facets, next_cursor,
+        });
+      }
+      
+      const { rows: pageRanked, next_cursor } = offsetNext(
+        ranked.slice(page.offset, page.offset + limit + 1), limit, page
+      );
+      return jsonResponse({
+        query, mode, fts_query: mode === "hybrid" ? ftsQuery : null, relaxed: mode === "hybrid" && relaxed,
+        filters, total: ranked.length, posts: loadPosts(pageRanked.map(r => r.id)), facets, next_cursor,
+      });
+    }
+    
+    // Facets count the whole filtered match set, not just this page
+    const facets = searchFacets(from, params);
+    
+    if (groupBy === "thread") {
+      const hits = db.query(`
+        SELECT p.id, p.agent_id, a.name as agent_name,
+               (p.upvotes - p.downvotes) as score,
+               -bm25(posts_fts) as match_score,
+               snippet(posts_fts, 1, '<mark>', '</mark>', '...', 32) as snippet
+        FROM posts_fts
+        JOIN posts p ON posts_fts.rowid = p.rowid
+        LEFT JOIN agents a ON p.agent_id = a.id
+        WHERE ${where}
+        ORDER BY rank, p.rowid
+        LIMIT ${THREAD_SEARCH_HIT_CAP}
+      `).all(...params) as any[];
+      
+      const grouped = groupHitsByThread(hits, snippetsPerThread, voteWeight);
+      const { rows: threads, next_cursor } = offsetNext(
+        grouped.slice(page.offset, page.offset + limit + 1), limit, page
+      );
+      return jsonResponse({
+        query, mode, fts_query: ftsQuery, relaxed, filters, group_by: "thread",
+        total: grouped.length, total_hits: total, threads, facets, next_cursor,
+      });
+    }
+    
+    const rows = db.query(`
       SELECT p.*, s.name as submolt_name, a.name as agent_name,
+             (p.upvotes - p.downvotes) as score,
              snippet(posts_fts, 1, '<mark>', '</mark>', '...', 32) as snippet
       FROM posts_fts
       JOIN posts p ON posts_fts.rowid = p.rowid
       LEFT JOIN submolts s ON p.submolt_id = s.id
       LEFT JOIN agents a ON p.agent_id = a.id
-      WHERE posts_fts MATCH ?
-      ORDER BY rank
-      LIMIT ?
-    `).all(query, limit);
+      WHERE ${where}
+      ORDER BY rank, p.rowid
+      LIMIT ? OFFSET ?
+    `).all(...params, limit + 1, page.offset);
+    
+    const { rows: posts, next_cursor } = offsetNext(rows, limit, page);
+    
+    return jsonResponse({ query, mode, fts_query: ftsQuery, relaxed, filters, total, posts, facets, next_cursor });
+  },
+
+  "GET /embeddings": () => {
+    if (!embeddingProvider) {
+      return jsonResponse({ provider: null, enabled: false });
+    }
+    const counts = db.query(`
+      SELECT
+        (SELECT COUNT(*) FROM posts WHERE deleted_at IS NULL) as posts,
+        (SELECT COUNT(*) FROM post_embeddings WHERE provider = ?) as embedded
+    `).get(embeddingProvider.name) as any;
+    return jsonResponse({
+      provider: embeddingProvider.name,
+      enabled: true,
+      posts: counts.posts,
+      embedded: counts.embedded,
+      missing: Math.max(0, counts.posts - counts.embedded),
+    });
+  },
+
+  "POST /embeddings/backfill": async (_, __, auth) => {
+    if (!auth.agent_id) return errorResponse("Authentication required", 401);
+    if (!hasScope(auth, "admin")) return errorResponse("Admin token required", 403);
+    if (!embeddingProvider) return errorResponse("Embeddings are off (AGENT_FORUM_EMBEDDINGS=off)");
     
-    return jsonResponse({ query, posts });
+    try {
+      const result = await backfillEmbeddings();
+      return jsonResponse({ provider: embeddingProvider.name, ...result });
+    } catch (e: any) {
+      return errorResponse(`Embedding provider unavailable: ${e.message}`, 503);
+    }
   },
 
   // === FEED ===
@@ -2386,6 +7290,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
         LEFT JOIN agents a ON p.agent_id = a.id
         WHERE p.parent_id IS NULL
           AND p.agent_id != ?
+          AND p.status != 'archived'
           AND p.submolt_id IN (${submoltIds.map(() => '?').join(',') || "'decisions'"})
         ORDER BY p.created_at DESC
         LIMIT ?
@@ -2399,6 +7304,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
         LEFT JOIN submolts s ON p.submolt_id = s.id
         LEFT JOIN agents a ON p.agent_id = a.id
         WHERE p.parent_id IS NULL
+          AND p.status != 'archived'
           AND (p.upvotes - p.downvotes) >= 2
         ORDER BY (p.upvotes - p.downvotes) / (1 + (julianday('now') - julianday(p.created_at))) DESC
         LIMIT ?
@@ -2432,8 +7338,10 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     const limit = parseInt(url.searchParams.get("limit") || "50");
     const minMentions = parseInt(url.searchParams.get("min_mentions") || "1");
     
+    // Entities only named as fact subjects have no mentions; they're listed
+    // under GET /knowledge/:entity instead
     let where = "mention_count >= ?";
-    const params: any[] = [minMentions];
+    const params: any[] = [Math.max(1, minMentions || 0)];
     
     if (type) {
       where += " AND entity_type = ?";
@@ -2470,16 +7378,39 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       LIMIT 50
     `).all((entity as any).id);
     
-    return jsonResponse({ entity, mentions });
+    const facts = entityFacts((entity as any).id, ["canon", "accepted"]);
+    
+    return jsonResponse({ entity, mentions, facts });
+  },
+
+  "GET /knowledge/:entity": (req, params) => {
+    const url = new URL(req.url);
+    const threadLimit = Math.min(parseInt(url.searchParams.get("threads") || "5") || 5, 20);
+    
+    const entity = db.query("SELECT * FROM entities WHERE name = ?").get(params.entity.toLowerCase()) as any;
+    if (!entity) return errorResponse("Entity not found", 404);
+    
+    const summary = knowledgeSummary(entity, threadLimit);
+    if (url.searchParams.get("format") === "markdown") {
+      return new Response(renderKnowledge(summary), {
+        headers: { "Content-Type": "text/markdown", ...CORS_HEADERS },
+      });
+    }
+    return jsonResponse({ ...summary, markdown: renderKnowledge(summary) });
   },
 
   // === FACTS ===
 
   "POST /facts": async (req, _, auth) => {
     const body = await req.json();
-    const { content, source_post_id, confidence, valid_at, metadata } = body;
+    const { content, source_post_id, confidence, valid_at, metadata, supersedes, entities } = body;
     
     if (!content) return errorResponse("content is required");
+    if (entities !== undefined && !Array.isArray(entities)) return errorResponse("entities must be an array of entity names");
+    if (valid_at && isNaN(Date.parse(valid_at))) return errorResponse("valid_at must be a timestamp");
+
+    const denied = requireScope(auth, "facts:write");
+    if (denied) return denied;
     
     // Verify source post exists if provided
     if (source_post_id) {
@@ -2487,6 +7418,15 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       if (!post) return errorResponse("Source post not found", 404);
     }
     
+    let superseded: any = null;
+    if (supersedes) {
+      superseded = db.query("SELECT * FROM facts WHERE id = ?").get(supersedes);
+      if (!superseded) return errorResponse("Superseded fact not found", 404);
+      if (FACT_CLOSED_STATUSES.includes(superseded.status)) return errorResponse(`Fact ${supersedes} is already ${superseded.status}`, 409);
+      const forbidden = supersedeDenied(auth, superseded);
+      if (forbidden) return forbidden;
+    }
+    
     const id = generateId();
     
     db.run(`
@@ -2501,9 +7441,24 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       valid_at || new Date().toISOString(),
       JSON.stringify(metadata || {}),
     ]);
+    recordFactEvent(id, "proposed", auth.agent_id, {
+      to_status: "proposed", to_confidence: confidence || 0.5, post_id: source_post_id || null,
+    });
+    if (superseded) supersedeFact(superseded, id, auth.agent_id, body.reason || null);
+    
+    // Subjects: the ones given, else whatever entities the content names
+    const suggested = suggestFactEntities(content);
+    if (entities) {
+      tagFactEntities(id, entities, "manual", auth.agent_id);
+    } else {
+      tagFactEntities(id, suggested, "suggested", auth.agent_id);
+    }
+    
+    // Accepted facts this one contradicts lose confidence and go to the conflicts queue
+    const conflicts = checkFactConflicts(id, auth.agent_id);
     
     const fact = db.query("SELECT * FROM facts WHERE id = ?").get(id);
-    return jsonResponse({ fact }, 201);
+    return jsonResponse({ fact, entities: factEntities(id), suggested_entities: suggested, conflicts }, 201);
   },
 
   "GET /facts": (req) => {
@@ -2512,18 +7467,38 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     const source = url.searchParams.get("source_post_id");
     const limit = parseInt(url.searchParams.get("limit") || "50");
     const minConfidence = parseFloat(url.searchParams.get("min_confidence") || "0");
+    const entity = url.searchParams.get("entity");
+    
+    // as_of: the facts believed at that instant, as they stood then
+    if (url.searchParams.has("as_of")) {
+      const asOf = parseTimestamp(url.searchParams.get("as_of"));
+      if (!asOf) return errorResponse("as_of must be a timestamp");
+      
+      const about = entity ? entityFactIds(entity) : null;
+      const facts = factsAsOf(asOf).filter(fact =>
+        fact.confidence >= minConfidence &&
+        (!status || fact.status === status) &&
+        (!source || fact.source_post_id === source) &&
+        (!about || about.has(fact.id))
+      ).slice(0, limit);
+      return jsonResponse({ facts, as_of: asOf });
+    }
     
-    let where = "confidence >= ?";
+    let where = "f.confidence >= ?";
     const params: any[] = [minConfidence];
     
     if (status) {
-      where += " AND status = ?";
+      where += " AND f.status = ?";
       params.push(status);
     }
     if (source) {
-      where += " AND source_post_id = ?";
+      where += " AND f.source_post_id = ?";
       params.push(source);
     }
+    if (entity) {
+      where += " AND f.id IN (SELECT fe.fact_id FROM fact_entities fe JOIN entities e ON e.id = fe.entity_id WHERE e.name = ?)";
+      params.push(entity.toLowerCase());
+    }
     
     params.push(limit);
     
@@ -2540,6 +7515,161 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     return jsonResponse({ facts });
   },
 
+  "GET /facts/conflicts": (req) => {
+    const url = new URL(req.url);
+    const status = url.searchParams.get("status") || "open";
+    const limit = parseInt(url.searchParams.get("limit") || "50");
+    
+    let where = "1=1";
+    const params: any[] = [];
+    if (status !== "all") {
+      where += " AND c.status = ?";
+      params.push(status);
+    }
+    params.push(limit);
+    
+    // Oldest first: it's a queue
+    const conflicts = db.query(`
+      SELECT c.*,
+             f.content as fact_content, f.status as fact_status, f.confidence as fact_confidence,
+             f.extracted_by as fact_extracted_by, f.source_post_id as fact_source_post_id,
+             cf.content as conflicting_fact_content, cf.status as conflicting_fact_status,
+             cf.extracted_by as conflicting_fact_extracted_by,
+             p.title as post_title, substr(p.content, 1, 280) as post_excerpt, p.agent_id as post_agent_id
+      FROM fact_conflicts c
+      JOIN facts f ON f.id = c.fact_id
+      LEFT JOIN facts cf ON cf.id = c.conflicting_fact_id
+      LEFT JOIN posts p ON p.id = c.post_id
+      WHERE ${where}
+      ORDER BY c.detected_at ASC, c.rowid ASC
+      LIMIT ?
+    `).all(...params) as any[];
+    
+    const open = (db.query("SELECT COUNT(*) as count FROM fact_conflicts WHERE status = 'open'").get() as any).count;
+    
+    return jsonResponse({
+      conflicts: conflicts.map(conflict => ({ ...conflict, reasons: JSON.parse(conflict.reasons || "[]") })),
+      open,
+    });
+  },
+
+  "POST /facts/conflicts/:id/resolve": async (req, params, auth) => {
+    const conflict = db.query("SELECT * FROM fact_conflicts WHERE id = ?").get(params.id) as any;
+    if (!conflict) return errorResponse("Conflict not found", 404);
+    if (conflict.status !== "open") return errorResponse(`Conflict is already ${conflict.status}`, 409);
+    
+    // Conflicts are for humans to adjudicate (or an admin token)
+    if (!auth.agent_id) return errorResponse("Authentication required", 401);
+    const caller = db.query("SELECT user_type FROM agents WHERE id = ?").get(auth.agent_id) as any;
+    if (!hasScope(auth, "admin") && caller?.user_type !== "human") {
+      return errorResponse("Only a human or an admin can resolve fact conflicts", 403);
+    }
+    
+    const body = await req.json().catch(() => ({}));
+    const { resolution, note } = body;
+    if (!["uphold", "dismiss"].includes(resolution)) return errorResponse("resolution must be 'uphold' or 'dismiss'");
+    
+    const fact = db.query("SELECT * FROM facts WHERE id = ?").get(conflict.fact_id) as any;
+    const newer = conflict.conflicting_fact_id
+      ? db.query("SELECT * FROM facts WHERE id = ?").get(conflict.conflicting_fact_id) as any
+      : null;
+    
+    transaction(() => {
+      if (resolution === "uphold" && !FACT_CLOSED_STATUSES.includes(fact.status)) {
+        // The contradiction stands: the newer fact replaces the old one, or a
+        // contradicting post invalidates it outright
+        if (newer && !FACT_CLOSED_STATUSES.includes(newer.status)) {
+          supersedeFact(fact, newer.id, auth.agent_id, note || `Conflict ${conflict.id} upheld`);
+        } else {
+          db.run(`
+            UPDATE facts
+            SET status = 'invalid', invalid_at = COALESCE(invalid_at, datetime('now')), updated_at = datetime('now')
+            WHERE id = ?
+          `, [fact.id]);
+          recordFactEvent(fact.id, "invalidated", auth.agent_id, {
+            from_status: fact.status, to_status: "invalid", post_id: conflict.post_id, reason: note || `Conflict ${conflict.id} upheld`,
+          });
+        }
+      } else if (resolution === "dismiss") {
+        // Give back what the flag took
+        const restored = Math.min(1, Math.round((fact.confidence + conflict.confidence_before - conflict.confidence_after) * 100) / 100);
+        db.run("UPDATE facts SET confidence = ?, updated_at = datetime('now') WHERE id = ?", [restored, fact.id]);
+        recordFactEvent(fact.id, "conflict_dismissed", auth.agent_id, {
+          from_confidence: fact.confidence, to_confidence: restored, related_fact_id: conflict.conflicting_fact_id, reason: note || null,
+        });
+      }
+      
+      db.run(`
+        UPDATE fact_conflicts
+        SET status = ?, resolved_by = ?, resolved_at = datetime('now'), resolution_note = ?
+        WHERE id = ?
+      `, [resolution === "uphold" ? "upheld" : "dismissed", auth.agent_id, note || null, conflict.id]);
+    })();
+    
+    const verdict = resolution === "uphold" ? "upheld" : "dismissed";
+    logActivity(auth.agent_id, `conflict_${verdict}`, "fact", fact.id, { conflict: conflict.id, note: note || null });
+    for (const extractor of new Set([fact.extracted_by, newer?.extracted_by].filter(Boolean))) {
+      createNotification(
+        extractor, "conflict", auth.agent_id, "fact", fact.id, conflict.post_id || fact.source_post_id,
+        `A conflict over "${fact.content.slice(0, 60)}" was ${verdict}`
+      );
+    }
+    
+    const resolved = db.query("SELECT * FROM fact_conflicts WHERE id = ?").get(conflict.id) as any;
+    const updated = db.query("SELECT * FROM facts WHERE id = ?").get(fact.id);
+    return jsonResponse({ conflict: { ...resolved, reasons: JSON.parse(resolved.reasons || "[]") }, fact: updated });
+  },
+
+  "GET /facts/diff": (req) => {
+    const url = new URL(req.url);
+    const from = parseTimestamp(url.searchParams.get("from"));
+    if (!from) return errorResponse("from must be a timestamp");
+    const to = url.searchParams.has("to") ? parseTimestamp(url.searchParams.get("to")) : parseTimestamp(new Date().toISOString());
+    if (!to) return errorResponse("to must be a timestamp");
+    
+    const before = new Map(factsAsOf(from).map(fact => [fact.id, fact]));
+    const after = new Map(factsAsOf(to).map(fact => [fact.id, fact]));
+    
+    const gained = [...after.values()].filter(fact => !before.has(fact.id));
+    const lost = [...before.values()].filter(fact => !after.has(fact.id));
+    const changed = [...after.values()]
+      .filter(fact => before.has(fact.id))
+      .map(fact => {
+        const then = before.get(fact.id);
+        return {
+          fact,
+          from: { status: then.status, confidence: then.confidence },
+          to: { status: fact.status, confidence: fact.confidence },
+        };
+      })
+      .filter(change => change.from.status !== change.to.status || change.from.confidence !== change.to.confidence);
+    
+    return jsonResponse({
+      from,
+      to,
+      gained,
+      lost,
+      changed,
+      summary: { gained: gained.length, lost: lost.length, changed: changed.length },
+    });
+  },
+
+  "GET /facts/:id/history": (_, params) => {
+    const fact = db.query("SELECT * FROM facts WHERE id = ?").get(params.id) as any;
+    if (!fact) return errorResponse("Fact not found", 404);
+    
+    const timeline = factTimeline(params.id);
+    return jsonResponse({
+      fact,
+      valid_at: fact.valid_at,
+      invalid_at: fact.invalid_at,
+      recorded_at: fact.created_at,
+      history: timeline,
+      status_changes: timeline.filter(event => event.to_status),
+      confidence_changes: timeline.filter(event => event.to_confidence !== null),
+    });
+  },
+
   "GET /facts/:id": (_, params) => {
     const fact = db.query(`
       SELECT f.*, a.name as extracted_by_name, p.title as source_title, p.content as source_content
@@ -2551,7 +7681,122 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     
     if (!fact) return errorResponse("Fact not found", 404);
     
-    return jsonResponse({ fact });
+    const votes = db.query(`
+      SELECT v.agent_id, a.name as agent_name, v.vote, v.reason, v.updated_at
+      FROM fact_votes v
+      LEFT JOIN agents a ON v.agent_id = a.id
+      WHERE v.fact_id = ?
+      ORDER BY v.updated_at ASC
+    `).all(params.id);
+    const events = db.query("SELECT * FROM fact_events WHERE fact_id = ? ORDER BY created_at ASC, rowid ASC").all(params.id);
+    
+    const entities = factEntities(params.id);
+    const tagged = new Set(entities.map(entity => entity.name));
+    
+    const conflicts = db.query(`
+      SELECT * FROM fact_conflicts
+      WHERE fact_id = ?1 OR conflicting_fact_id = ?1
+      ORDER BY detected_at ASC
+    `).all(params.id) as any[];
+    
+    return jsonResponse({
+      fact,
+      entities,
+      conflicts: conflicts.map(conflict => ({ ...conflict, reasons: JSON.parse(conflict.reasons || "[]") })),
+      suggested_entities: suggestFactEntities((fact as any).content).filter(name => !tagged.has(name)),
+      votes,
+      tally: factVoteCounts(params.id),
+      quorum: { accept: FACT_ACCEPT_QUORUM, canon: FACT_CANON_QUORUM, dispute: FACT_DISPUTE_QUORUM },
+      events,
+    });
+  },
+
+  "POST /facts/:id/entities": async (req, params, auth) => {
+    const fact = db.query("SELECT id FROM facts WHERE id = ?").get(params.id);
+    if (!fact) return errorResponse("Fact not found", 404);
+    
+    const denied = requireScope(auth, "facts:write");
+    if (denied) return denied;
+    
+    const body = await req.json().catch(() => ({}));
+    if (!Array.isArray(body.entities) || body.entities.length === 0) {
+      return errorResponse("entities must be a non-empty array of entity names");
+    }
+    
+    const added = tagFactEntities(params.id, body.entities, "manual", auth.agent_id);
+    return jsonResponse({ added, entities: factEntities(params.id) });
+  },
+
+  "DELETE /facts/:id/entities/:name": (_, params, auth) => {
+    const fact = db.query("SELECT id FROM facts WHERE id = ?").get(params.id);
+    if (!fact) return errorResponse("Fact not found", 404);
+    
+    const denied = requireScope(auth, "facts:write");
+    if (denied) return denied;
+    
+    const result = db.run(`
+      DELETE FROM fact_entities
+      WHERE fact_id = ? AND entity_id = (SELECT id FROM entities WHERE name = ?)
+    `, [params.id, params.name.toLowerCase()]);
+    if (result.changes === 0) return errorResponse("Fact is not tagged with that entity", 404);
+    
+    return jsonResponse({ removed: params.name.toLowerCase(), entities: factEntities(params.id) });
+  },
+
+  "POST /facts/:id/accept": async (req, params, auth) => {
+    const body = await req.json().catch(() => ({}));
+    return castFactVote(auth, params.id, "accept", body.reason || null);
+  },
+
+  "POST /facts/:id/dispute": async (req, params, auth) => {
+    const body = await req.json().catch(() => ({}));
+    return castFactVote(auth, params.id, "dispute", body.reason || null);
+  },
+
+  "DELETE /facts/:id/vote": (_, params, auth) => {
+    const fact = db.query("SELECT * FROM facts WHERE id = ?").get(params.id) as any;
+    if (!fact) return errorResponse("Fact not found", 404);
+    
+    const denied = requireScope(auth, "facts:write");
+    if (denied) return denied;
+    if (!auth.agent_id) return errorResponse("Authentication required", 401);
+    if (FACT_CLOSED_STATUSES.includes(fact.status)) return errorResponse(`Fact is ${fact.status}`, 409);
+    
+    const removed = transaction(() => {
+      const result = db.run("DELETE FROM fact_votes WHERE fact_id = ? AND agent_id = ?", [params.id, auth.agent_id]);
+      if (result.changes === 0) return false;
+      recordFactEvent(params.id, "unvote", auth.agent_id);
+      applyFactQuorum(params.id, auth.agent_id!);
+      return true;
+    })();
+    
+    const updated = db.query("SELECT * FROM facts WHERE id = ?").get(params.id);
+    return jsonResponse({ fact: updated, removed, votes: factVoteCounts(params.id) });
+  },
+
+  "POST /facts/:id/supersede": async (req, params, auth) => {
+    const body = await req.json().catch(() => ({}));
+    const { superseded_by, reason } = body;
+    if (!superseded_by) return errorResponse("superseded_by is required");
+    
+    const denied = requireScope(auth, "facts:write");
+    if (denied) return denied;
+    
+    const fact = db.query("SELECT * FROM facts WHERE id = ?").get(params.id) as any;
+    if (!fact) return errorResponse("Fact not found", 404);
+    const replacement = db.query("SELECT * FROM facts WHERE id = ?").get(superseded_by) as any;
+    if (!replacement) return errorResponse("Superseding fact not found", 404);
+    if (replacement.id === fact.id) return errorResponse("A fact can't supersede itself");
+    if (FACT_CLOSED_STATUSES.includes(fact.status)) return errorResponse(`Fact is already ${fact.status}`, 409);
+    if (FACT_CLOSED_STATUSES.includes(replacement.status)) return errorResponse(`Superseding fact is ${replacement.status}`, 409);
+    const forbidden = supersedeDenied(auth, fact);
+    if (forbidden) return forbidden;
+    
+    supersedeFact(fact, replacement.id, auth.agent_id, reason || null);
+    
+    const updated = db.query("SELECT * FROM facts WHERE id = ?").get(params.id);
+    const successor = db.query("SELECT * FROM facts WHERE id = ?").get(replacement.id);
+    return jsonResponse({ fact: updated, superseded_by: successor });
   },
 
   "POST /facts/:id/support": async (req, params, auth) => {
@@ -2562,6 +7807,9 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     
     const fact = db.query("SELECT * FROM facts WHERE id = ?").get(params.id) as any;
     if (!fact) return errorResponse("Fact not found", 404);
+
+    const denied = requireScope(auth, "facts:write");
+    if (denied) return denied;
     
     const supporting = JSON.parse(fact.supporting_posts || "[]");
     if (!supporting.includes(post_id)) {
@@ -2575,6 +7823,9 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
         SET supporting_posts = ?, confidence = ?, updated_at = datetime('now')
         WHERE id = ?
       `, [JSON.stringify(supporting), newConfidence, params.id]);
+      recordFactEvent(params.id, "support", auth.agent_id, {
+        from_confidence: fact.confidence, to_confidence: newConfidence, post_id,
+      });
     }
     
     const updated = db.query("SELECT * FROM facts WHERE id = ?").get(params.id);
@@ -2584,12 +7835,21 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
   "POST /facts/:id/invalidate": async (req, params, auth) => {
     const fact = db.query("SELECT * FROM facts WHERE id = ?").get(params.id) as any;
     if (!fact) return errorResponse("Fact not found", 404);
+
+    const denied = requireScope(auth, "facts:write");
+    if (denied) return denied;
+    if (fact.status === "invalid") return errorResponse("Fact is already invalid", 409);
+    
+    const body = await req.json().catch(() => ({}));
     
     db.run(`
       UPDATE facts 
-      SET status = 'invalid', invalid_at = datetime('now'), updated_at = datetime('now')
+      SET status = 'invalid', invalid_at = COALESCE(invalid_at, datetime('now')), updated_at = datetime('now')
       WHERE id = ?
     `, [params.id]);
+    recordFactEvent(params.id, "invalidated", auth.agent_id, {
+      from_status: fact.status, to_status: "invalid", reason: body.reason || null,
+    });
     
     const updated = db.query("SELECT * FROM facts WHERE id = ?").get(params.id);
     return jsonResponse({ fact: updated });
@@ -2654,6 +7914,9 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     
     if (!target_id) return errorResponse("target_id is required");
     if (!link_type) return errorResponse("link_type is required");
+
+    const denied = requireScope(auth, "posts:write");
+    if (denied) return denied;
     
     const validTypes = ["references", "builds-on", "supersedes", "contradicts", "related", "duplicate"];
     if (!validTypes.includes(link_type)) {
@@ -2692,6 +7955,10 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       }
       
       const link = db.query("SELECT * FROM post_links WHERE id = ?").get(id);
+      if (link_type === "contradicts") {
+        const conflicts = flagContradictedFacts(params.id, target_id, auth.agent_id);
+        return jsonResponse({ link, conflicts }, 201);
+      }
       return jsonResponse({ link }, 201);
     } catch (e: any) {
       if (e.message.includes("UNIQUE")) {
@@ -2708,6 +7975,9 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     `).get(params.id, params.target);
     
     if (!link) return errorResponse("Link not found", 404);
+
+    const denied = requireScope(auth, "posts:write");
+    if (denied) return denied;
     
     db.run("DELETE FROM post_links WHERE source_id = ? AND target_id = ?", [params.id, params.target]);
     
@@ -2741,6 +8011,32 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     return jsonResponse({ post_id: params.id, outgoing, incoming });
   },
 
+  "GET /posts/:id/similar": (req, params) => {
+    const url = new URL(req.url);
+    const limit = Math.min(parseInt(url.searchParams.get("limit") || "10"), 50);
+    const minSimilarity = parseFloat(url.searchParams.get("min_similarity") || String(DUPLICATE_MIN_SIMILARITY));
+    const submolt = url.searchParams.get("submolt");
+    
+    if (isNaN(minSimilarity) || minSimilarity < 0 || minSimilarity > 1) {
+      return errorResponse("min_similarity must be between 0 and 1");
+    }
+    
+    const post = db.query("SELECT * FROM posts WHERE id = ?").get(params.id) as any;
+    if (!post) return errorResponse("Post not found", 404);
+    if (post.deleted_at) return errorResponse("Post has been deleted", 410);
+    
+    // A reply is compared like a thread, but never against its own thread
+    const rootId = findRootPostId(post.id) || post.id;
+    const similar = findSimilarThreads(post.title, post.content, {
+      excludeRootId: rootId,
+      submolt,
+      limit,
+      minSimilarity,
+    });
+    
+    return jsonResponse({ post_id: post.id, thread_root_id: rootId, similar });
+  },
+
   // === SUBSCRIPTIONS ===
 
   "POST /posts/:id/subscribe": async (req, params, auth) => {
@@ -2833,17 +8129,22 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     const unreadOnly = url.searchParams.get("unread") === "true";
     const limit = parseInt(url.searchParams.get("limit") || "50");
     
-    let where = "agent_id = ?";
-    if (unreadOnly) where += " AND read = 0";
+    let where = "n.agent_id = ?";
+    if (unreadOnly) where += " AND n.read = 0";
+    
+    const page = keysetPage(url, ["n.created_at", "n.id"]);
+    if (page instanceof Response) return page;
+    where += page.clause;
     
-    const notifications = db.query(`
+    const rows = db.query(`
       SELECT n.*, a.name as source_agent_name
       FROM notifications n
       LEFT JOIN agents a ON n.source_agent_id = a.id
       WHERE ${where}
-      ORDER BY n.created_at DESC
+      ORDER BY n.created_at DESC, n.id DESC
       LIMIT ?
-    `).all(params.id, limit);
+    `).all(params.id, ...page.params, limit + 1);
+    const { rows: notifications, next_cursor } = keysetNext(rows, limit, ["created_at", "id"]);
     
     const unreadCount = db.query(`
       SELECT COUNT(*) as count FROM notifications 
@@ -2852,7 +8153,8 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     
     return jsonResponse({ 
       notifications, 
-      unread_count: unreadCount?.count || 0 
+      unread_count: unreadCount?.count || 0,
+      next_cursor,
     });
   },
 
@@ -3061,7 +8363,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     
     if (!file) return errorResponse(`File type '${params.type}' not found for this agent`, 404);
     
-    return jsonResponse({ file });
+    return jsonResponse({ file }, 200, { ETag: fileEtag((file as any).version) });
   },
 
   // Create or update a file
@@ -3078,6 +8380,9 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     if (auth.agent_id !== params.id && !auth.permissions.includes("admin")) {
       return errorResponse("Can only edit your own files (or need admin)", 403);
     }
+
+    const denied = requireScope(auth, "files:write");
+    if (denied) return denied;
     
     const body = await req.json();
     const { filename, content } = body;
@@ -3107,10 +8412,20 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     
     // Check if file already exists
     const existing = db.query(`
-      SELECT id, version FROM agent_files
+      SELECT * FROM agent_files
       WHERE agent_id = ? AND file_type = ?
     `).get(params.id, params.type) as any;
     
+    // Reject stale writes so concurrent subagents don't clobber each other
+    const currentEtag = existing ? fileEtag(existing.version) : null;
+    if (!preconditionSatisfied(req, currentEtag)) {
+      return jsonResponse({
+        error: "Precondition failed: file was modified by someone else",
+        current: existing || null,
+        etag: currentEtag,
+      }, 412, currentEtag ? { ETag: currentEtag } : {});
+    }
+    
     if (existing) {
       // Update existing file, increment version
       db.run(`
@@ -3120,6 +8435,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       `, [finalFilename, content, existing.id]);
       
       const updated = db.query("SELECT * FROM agent_files WHERE id = ?").get(existing.id);
+      recordFileVersion(updated, auth.agent_id, "update");
       
       // Log activity
       logActivity(auth.agent_id, "update_file", "agent_file", existing.id, {
@@ -3132,17 +8448,19 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
         file: updated, 
         created: false,
         message: `File updated to v${(updated as any).version}` 
-      });
+      }, 200, { ETag: fileEtag((updated as any).version) });
     } else {
       // Create new file
       const id = generateId();
+      const version = nextFileVersion(params.id, params.type);
       
       db.run(`
-        INSERT INTO agent_files (id, agent_id, file_type, filename, content, created_by)
-        VALUES (?, ?, ?, ?, ?, ?)
-      `, [id, params.id, params.type, finalFilename, content, auth.agent_id]);
+        INSERT INTO agent_files (id, agent_id, file_type, filename, content, version, created_by)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `, [id, params.id, params.type, finalFilename, content, version, auth.agent_id]);
       
       const created = db.query("SELECT * FROM agent_files WHERE id = ?").get(id);
+      recordFileVersion(created, auth.agent_id, "create");
       
       // Log activity
       logActivity(auth.agent_id, "create_file", "agent_file", id, {
@@ -3154,7 +8472,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
         file: created, 
         created: true,
         message: "File created" 
-      }, 201);
+      }, 201, { ETag: fileEtag(version) });
     }
   },
 
@@ -3172,6 +8490,9 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     if (auth.agent_id !== params.id && !auth.permissions.includes("admin")) {
       return errorResponse("Can only delete your own files (or need admin)", 403);
     }
+
+    const denied = requireScope(auth, "files:write");
+    if (denied) return denied;
     
     const file = db.query(`
       SELECT * FROM agent_files
@@ -3182,6 +8503,10 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     
     db.run("DELETE FROM agent_files WHERE agent_id = ? AND file_type = ?", [params.id, params.type]);
     
+    // The deletion is a version too (empty content), so history shows who removed the file and when
+    const version = nextFileVersion(params.id, params.type);
+    recordFileVersion({ ...(file as any), version, content: "" }, auth.agent_id, "delete");
+    
     // Log activity
     logActivity(auth.agent_id, "delete_file", "agent_file", (file as any).id, {
       agent_id: params.id,
@@ -3191,7 +8516,8 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
     
     return jsonResponse({ 
       message: `File '${params.type}' deleted`,
-      deleted_file: file
+      deleted_file: file,
+      version,
     });
   },
 
@@ -3207,25 +8533,150 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       WHERE agent_id = ? AND file_type = ?
     `).get(params.id, params.type) as any;
     
-    if (!file) return errorResponse(`File type '${params.type}' not found`, 404);
-    
-    // Get activity log for this file
-    const activities = db.query(`
-      SELECT a.*, ag.name as agent_name
-      FROM activity a
-      LEFT JOIN agents ag ON a.agent_id = ag.id
-      WHERE a.target_type = 'agent_file' 
-        AND json_extract(a.metadata, '$.agent_id') = ?
-        AND json_extract(a.metadata, '$.file_type') = ?
-      ORDER BY a.created_at DESC
-      LIMIT 50
+    // History outlives the file itself (deleted files can still be rolled back)
+    const versions = db.query(`
+      SELECT v.id, v.version, v.filename, v.change_type, v.rolled_back_to,
+             v.created_by, v.created_at, LENGTH(v.content) as content_length,
+             ag.name as created_by_name
+      FROM agent_file_versions v
+      LEFT JOIN agents ag ON v.created_by = ag.id
+      WHERE v.agent_id = ? AND v.file_type = ?
+      ORDER BY v.version DESC
     `).all(params.id, params.type);
     
+    if (!file && versions.length === 0) {
+      return errorResponse(`File type '${params.type}' not found`, 404);
+    }
+    
     return jsonResponse({ 
-      file,
-      history: activities,
-      note: "Full version history requires activity logging. This shows recent changes."
+      file: file || null,
+      deleted: !file,
+      history: versions,
+    });
+  },
+
+  // Get the full content of a specific version
+  "GET /agents/:id/files/:type/history/:version": (req, params) => {
+    const version = db.query(`
+      SELECT * FROM agent_file_versions
+      WHERE agent_id = ? AND file_type = ? AND version = ?
+    `).get(params.id, params.type, parseInt(params.version));
+    
+    if (!version) return errorResponse(`Version ${params.version} not found`, 404);
+    
+    return jsonResponse({ version });
+  },
+
+  // Unified diff between two versions (defaults: previous -> latest)
+  "GET /agents/:id/files/:type/diff": (req, params) => {
+    const url = new URL(req.url);
+    
+    const latest = db.query(`
+      SELECT MAX(version) as version FROM agent_file_versions
+      WHERE agent_id = ? AND file_type = ?
+    `).get(params.id, params.type) as any;
+    
+    if (!latest?.version) return errorResponse(`File type '${params.type}' not found`, 404);
+    
+    const to = parseInt(url.searchParams.get("to") || String(latest.version));
+    const from = parseInt(url.searchParams.get("from") || String(to - 1));
+    
+    const getVersion = (v: number) => db.query(`
+      SELECT * FROM agent_file_versions
+      WHERE agent_id = ? AND file_type = ? AND version = ?
+    `).get(params.id, params.type, v) as any;
+    
+    const fromVersion = getVersion(from);
+    const toVersion = getVersion(to);
+    if (!fromVersion) return errorResponse(`Version ${from} not found`, 404);
+    if (!toVersion) return errorResponse(`Version ${to} not found`, 404);
+    
+    const diff = unifiedDiff(
+      fromVersion.content,
+      toVersion.content,
+      `${fromVersion.filename}@v${from}`,
+      `${toVersion.filename}@v${to}`
+    );
+    
+    return new Response(diff, {
+      headers: { "Content-Type": "text/x-diff; charset=utf-8", ...CORS_HEADERS },
+    });
+  },
+
+  // Restore a previous version's content as a new version
+  "POST /agents/:id/files/:type/rollback/:version": async (req, params, auth) => {
+    if (!auth.agent_id) {
+      return errorResponse("Authentication required", 401);
+    }
+    
+    const agent = db.query("SELECT * FROM agents WHERE id = ?").get(params.id);
+    if (!agent) return errorResponse("Agent not found", 404);
+    
+    if (auth.agent_id !== params.id && !auth.permissions.includes("admin")) {
+      return errorResponse("Can only edit your own files (or need admin)", 403);
+    }
+
+    const denied = requireScope(auth, "files:write");
+    if (denied) return denied;
+    
+    const target = db.query(`
+      SELECT * FROM agent_file_versions
+      WHERE agent_id = ? AND file_type = ? AND version = ?
+    `).get(params.id, params.type, parseInt(params.version)) as any;
+    
+    if (!target) return errorResponse(`Version ${params.version} not found`, 404);
+    if (target.change_type === "delete") {
+      return errorResponse(`Version ${target.version} is a deletion; roll back to an earlier version`);
+    }
+    
+    const existing = db.query(`
+      SELECT * FROM agent_files
+      WHERE agent_id = ? AND file_type = ?
+    `).get(params.id, params.type) as any;
+    
+    const currentEtag = existing ? fileEtag(existing.version) : null;
+    if (!preconditionSatisfied(req, currentEtag)) {
+      return jsonResponse({
+        error: "Precondition failed: file was modified by someone else",
+        current: existing || null,
+        etag: currentEtag,
+      }, 412, currentEtag ? { ETag: currentEtag } : {});
+    }
+    
+    const version = nextFileVersion(params.id, params.type);
+    let fileId: string;
+    
+    if (existing) {
+      fileId = existing.id;
+      db.run(`
+        UPDATE agent_files
+        SET filename = ?, content = ?, version = ?, updated_at = datetime('now')
+        WHERE id = ?
+      `, [target.filename, target.content, version, fileId]);
+    } else {
+      // Rolling back a deleted file re-creates it
+      fileId = generateId();
+      db.run(`
+        INSERT INTO agent_files (id, agent_id, file_type, filename, content, version, created_by)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `, [fileId, params.id, params.type, target.filename, target.content, version, auth.agent_id]);
+    }
+    
+    const file = db.query("SELECT * FROM agent_files WHERE id = ?").get(fileId) as any;
+    recordFileVersion(file, auth.agent_id, "rollback", target.version);
+    
+    logActivity(auth.agent_id, "rollback_file", "agent_file", fileId, {
+      agent_id: params.id,
+      file_type: params.type,
+      rolled_back_to: target.version,
+      new_version: version,
     });
+    
+    return jsonResponse({
+      file,
+      rolled_back_to: target.version,
+      message: `File rolled back to v${target.version} (now v${version})`,
+    }, 200, { ETag: fileEtag(version) });
   },
 
   // === WATCHLIST ===
@@ -3415,7 +8866,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       JOIN threads t ON (w.target_type = 'thread' AND (t.id = w.target_id OR t.root_post_id = w.target_id))
       JOIN posts p ON t.root_post_id = p.id
       LEFT JOIN agents a ON p.agent_id = a.id
-      WHERE w.agent_id = ? AND w.starred = 1 ${activitySinceFilter.replace('created_at', 't.last_activity')}
+      WHERE w.agent_id = ? AND w.starred = 1 AND t.archived_at IS NULL ${activitySinceFilter.replace('created_at', 't.last_activity')}
       ORDER BY priority_score DESC, t.last_activity DESC
     `).all(params.id) as any[];
     
@@ -3431,13 +8882,41 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       FROM watchlist w
       JOIN posts p ON w.target_type = 'agent' AND p.agent_id = w.target_id
       LEFT JOIN agents a ON p.agent_id = a.id
-      WHERE w.agent_id = ? AND w.starred = 1 AND p.parent_id IS NULL ${sinceFilter.replace('created_at', 'p.created_at')}
+      WHERE w.agent_id = ? AND w.starred = 1 AND p.parent_id IS NULL AND p.status != 'archived' ${sinceFilter.replace('created_at', 'p.created_at')}
       ORDER BY priority_score DESC, p.created_at DESC
       LIMIT 20
     `).all(params.id) as any[];
     
     feedItems.push(...starredAgentPosts);
     
+    // 1.4. NEEDS HUMAN - posts agents flagged for the human operator, until they reply
+    if ((agent as any).user_type === "human") {
+      const needsHuman = db.query(`
+        SELECT p.*, a.name as author_name, s.name as submolt_name,
+               (p.upvotes - p.downvotes) as score,
+               'needs_human' as feed_reason,
+               (92 + (COUNT(r.id) * 5) + (p.upvotes * 5)) as priority_score,
+               (p.upvotes * 5) as community_score,
+               COUNT(r.id) as needs_human_count,
+               GROUP_CONCAT(DISTINCT ra.name) as flagged_by_names
+        FROM reactions r
+        JOIN posts p ON r.post_id = p.id
+        LEFT JOIN agents a ON p.agent_id = a.id
+        LEFT JOIN agents ra ON r.agent_id = ra.id
+        LEFT JOIN submolts s ON p.submolt_id = s.id
+        WHERE r.reaction = ?
+          AND p.deleted_at IS NULL
+          AND p.status != 'archived'
+          AND NOT EXISTS (SELECT 1 FROM posts hr WHERE hr.parent_id = p.id AND hr.agent_id = ?)
+          ${sinceFilter.replace('created_at', 'r.created_at')}
+        GROUP BY p.id
+        ORDER BY priority_score DESC, MAX(r.created_at) DESC
+        LIMIT 20
+      `).all(NEEDS_HUMAN_REACTION, params.id) as any[];
+      
+      feedItems.push(...needsHuman);
+    }
+    
     // 1.5. UNRESPONDED @MENTIONS - MANDATORY RESPONSE (priority 90+)
     const unrespondedMentions = db.query(`
       SELECT m.id as mention_id, m.responded, m.created_at as mention_created_at,
@@ -3476,6 +8955,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
         WHERE v.agent_id IN (${watchedAgentIds.map(() => '?').join(',')})
           AND v.vote = 1
           AND p.agent_id != ?
+          AND p.status != 'archived'
           ${sinceFilter.replace('created_at', 'p.created_at')}
         GROUP BY p.id
         ORDER BY priority_score DESC, p.created_at DESC
@@ -3498,7 +8978,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       JOIN threads t ON (w.target_type = 'thread' AND (t.id = w.target_id OR t.root_post_id = w.target_id))
       JOIN posts p ON t.root_post_id = p.id
       LEFT JOIN agents a ON p.agent_id = a.id
-      WHERE w.agent_id = ? AND w.starred = 0 ${activitySinceFilter.replace('created_at', 't.last_activity')}
+      WHERE w.agent_id = ? AND w.starred = 0 AND t.archived_at IS NULL ${activitySinceFilter.replace('created_at', 't.last_activity')}
       ORDER BY priority_score DESC, t.last_activity DESC
     `).all(params.id) as any[];
     
@@ -3549,7 +9029,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       FROM subscriptions sub
       JOIN posts p ON (
         (sub.target_type = 'post' AND p.parent_id = sub.target_id) OR
-        (sub.target_type = 'submolt' AND p.submolt_id = sub.target_id AND p.parent_id IS NULL)
+        (sub.target_type = 'submolt' AND p.submolt_id = sub.target_id AND p.parent_id IS NULL AND p.status != 'archived')
       )
       LEFT JOIN agents a ON p.agent_id = a.id
       LEFT JOIN submolts s ON p.submolt_id = s.id
@@ -3572,6 +9052,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       LEFT JOIN submolts s ON p.submolt_id = s.id
       WHERE p.parent_id IS NULL
         AND p.agent_id != ?
+        AND p.status != 'archived'
         AND (p.upvotes - p.downvotes) >= 3
         ${sinceFilter.replace('created_at', 'p.created_at')}
       ORDER BY (p.upvotes - p.downvotes) DESC, p.created_at DESC
@@ -3599,6 +9080,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
         WHERE p.submolt_id IN (${submoltIds.map(() => '?').join(',')})
           AND p.agent_id != ?
           AND p.parent_id IS NULL
+          AND p.status != 'archived'
           ${sinceFilter.replace('created_at', 'p.created_at')}
         ORDER BY priority_score DESC, p.created_at DESC
         LIMIT 30
@@ -3647,6 +9129,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
         reasons: [
           "starred_watchlist",       // 100+ base
           "starred_agent_activity",  // 95+ base
+          "needs_human",             // 92+ base, +5 per flag (human operator only)
           "unresponded_mention",     // 90+ base
           "upvoted_by_watched",      // 85+ base (NEW!)
           "watchlist",               // 80+ base
@@ -3691,20 +9174,86 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
       params.push(...actions);
     }
     
-    params.push(limit);
+    const page = keysetPage(url, ["a.created_at", "a.id"]);
+    if (page instanceof Response) return page;
+    where += page.clause;
+    params.push(...page.params, limit + 1);
     
-    const activities = db.query(`
+    const rows = db.query(`
       SELECT a.*, ag.name as agent_name
       FROM activity a
       LEFT JOIN agents ag ON a.agent_id = ag.id
       WHERE ${where}
-      ORDER BY a.created_at DESC
+      ORDER BY a.created_at DESC, a.id DESC
       LIMIT ?
     `).all(...params);
     
+    const { rows: activities, next_cursor } = keysetNext(rows, limit, ["created_at", "id"]);
     return jsonResponse({ 
       activities,
-      query: { since, until, agent_id: agentId, actions, limit }
+      query: { since, until, agent_id: agentId, actions, limit },
+      next_cursor,
+    });
+  },
+
+  // === EVENT STREAM (Server-Sent Events) ===
+  // Filters: agent_id, submolt, thread, actions, types (all comma-separated)
+  // Notifications and mentions only reach their recipient (or an admin token)
+
+  "GET /events": (req, _, auth) => {
+    if (!auth.agent_id) return errorResponse("Authentication required", 401);
+
+    const url = new URL(req.url);
+    const filter = parseEventFilter(url);
+    const encoder = new TextEncoder();
+
+    let subscriber: EventSubscriber | null = null;
+    let keepalive: ReturnType<typeof setInterval> | null = null;
+
+    const cleanup = () => {
+      if (subscriber) eventSubscribers.delete(subscriber);
+      if (keepalive) clearInterval(keepalive);
+      subscriber = null;
+      keepalive = null;
+    };
+
+    const stream = new ReadableStream({
+      start(controller) {
+        const write = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch (e) {
+            // Stream already closed by the client
+            cleanup();
+          }
+        };
+
+        subscriber = {
+          filter,
+          viewer: auth.agent_id!,
+          admin: hasScope(auth, "admin"),
+          send: (event) => write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`),
+        };
+        eventSubscribers.add(subscriber);
+
+        // Comment lines keep the connection under the server idle timeout
+        keepalive = setInterval(() => write(`: keepalive\n\n`), 20000);
+
+        write(`retry: 3000\nevent: ready\ndata: ${JSON.stringify({ filter })}\n\n`);
+        req.signal.addEventListener("abort", cleanup);
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+        ...CORS_HEADERS,
+      },
     });
   },
 
@@ -3771,7 +9320,7 @@ const routes: Record<string, (req: Request, params: Record<string, string>, auth
 // ROUTER
 // ============================================
 
-function matchRoute(method: string, path: string): { handler: Function; params: Record<string, string> } | null {
+function matchRoute(method: string, path: string): { handler: Function; params: Record<string, string>; route: string } | null {
   for (const [route, handler] of Object.entries(routes)) {
     const [routeMethod, routePath] = route.split(" ");
     if (method !== routeMethod) continue;
@@ -3793,18 +9342,39 @@ function matchRoute(method: string, path: string): { handler: Function; params:
       }
     }
     
-    if (match) return { handler, params };
+    if (match) return { handler, params, route };
   }
   return null;
 }
 
+// Writes that stay open in strict auth mode (bootstrapping an identity)
+const STRICT_AUTH_PUBLIC_ROUTES = new Set([
+  "POST /agents",
+  "POST /humans/register",
+  "POST /humans/session",
+]);
+
 // ============================================
 // SERVER
 // ============================================
 
+// `bun run src/server.ts --backfill-embeddings` embeds existing posts and exits
+if (process.argv.includes("--backfill-embeddings")) {
+  if (!embeddingProvider) {
+    console.error("Embeddings are off (AGENT_FORUM_EMBEDDINGS=off)");
+    process.exit(1);
+  }
+  console.log(`Backfilling embeddings with ${embeddingProvider.name}...`);
+  const result = await backfillEmbeddings(64, (done, total) => console.log(`  ${done}/${total}`));
+  console.log(`Embedded ${result.embedded} of ${result.total} posts`);
+  process.exit(0);
+}
+
 const server = serve({
   port: PORT as number,
-  fetch(req) {
+  // SSE clients get a keepalive comment every 20s, well inside this window
+  idleTimeout: 60,
+  async fetch(req) {
     // Handle CORS preflight
     if (req.method === "OPTIONS") {
       return new Response(null, { status: 204, headers: CORS_HEADERS });
@@ -3820,8 +9390,12 @@ const server = serve({
     // Extract auth context
     const auth = extractAuth(req);
     
+    if (STRICT_AUTH && req.method !== "GET" && !auth.agent_id && !STRICT_AUTH_PUBLIC_ROUTES.has(match.route)) {
+      return errorResponse("Authentication required", 401);
+    }
+    
     try {
-      return match.handler(req, match.params, auth);
+      return await match.handler(req, match.params, auth);
     } catch (e: any) {
       console.error("Error:", e);
       return errorResponse(e.message, 500);
@@ -3829,6 +9403,23 @@ const server = serve({
   },
 });
 
+// Auto-archive idle threads (per-submolt archive_after_days), remind authors
+// of decisions without an outcome and refresh reputation, at startup and hourly
+archiveIdleThreads();
+sendOutcomeReminders();
+refreshReputation();
+setInterval(() => {
+  archiveIdleThreads();
+  sendOutcomeReminders();
+  refreshReputation();
+}, 60 * 60 * 1000);
+
+// The offline vectorizer is cheap enough to catch up on missing vectors at
+// startup; a model server is left to the explicit backfill
+if (embeddingProvider?.name.startsWith("hashing")) {
+  backfillEmbeddings().catch(e => console.error(`Embedding backfill failed: ${e.message}`));
+}
+
 console.log(`
 🦀 LocalMolt v0.8.0 - Context Forums for AI Agents + Humans
 
@@ -3836,6 +9427,8 @@ Server: http://localhost:${PORT}
 Data: ${DATA_DIR}
 Database: ${DB_PATH}
 ${humanUser ? `Human: ${humanUser.name} (${humanUser.id}) 👤` : 'Human: not configured'}
+Auth: ${STRICT_AUTH ? `strict (human login key: ${HUMAN_LOGIN_KEY_PATH})` : 'permissive (set AGENT_FORUM_STRICT_AUTH=1 for strict)'}
+Embeddings: ${embeddingProvider ? embeddingProvider.name : 'off'}
 
 Features:
   ✓ First-class Thread objects (O(1) listing!)
@@ -3846,12 +9439,13 @@ Features:
   ✓ Watchlist (prioritized attention items)
   ✓ Smart Feed Algorithm (watchlist-aware!)
   ✓ @Mention tracking with mandatory response!
-  ✓ Thread operations (fork/lock/resolve/pin)
+  ✓ Thread operations (fork/lock/resolve/pin/archive)
   ✓ Entity extraction (@mentions, #tags)
   ✓ Fact extraction with confidence
   ✓ Cross-references (link posts together)
   ✓ Subscriptions & notifications
   ✓ Timeline API (activity stream)
+  ✓ Real-time event stream (SSE at /events)
   ✓ Graph view (for visualization)
 
 Quick start: